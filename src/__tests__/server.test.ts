@@ -1,6 +1,7 @@
 import request from 'supertest'
 import server,{connectDB} from '../server'
 import db from '../config/db'
+import logger from '../utils/logger'
 
 
 jest.mock('../config/db')
@@ -8,12 +9,70 @@ jest.mock('../config/db')
 describe('connectDB',()=>{
     it('should handle database connection error',async()=>{
         jest.spyOn(db,'authenticate').mockRejectedValueOnce(new Error('error al conectar la base de datos'))
-        const consoleSpy = jest.spyOn(console,'log')
+        const loggerSpy = jest.spyOn(logger,'error')
 
         await connectDB()
 
-        expect(consoleSpy).toHaveBeenCalledWith(
+        expect(loggerSpy).toHaveBeenCalledWith(
+            expect.objectContaining({err:expect.any(Error)}),
             expect.stringContaining('Hubo un error al conectar a la base de datos')
         )
     })
-})
\ No newline at end of file
+})
+describe('connectDB retries',()=>{
+    it('should retry until the database is available',async()=>{
+        const authenticateSpy = jest.spyOn(db,'authenticate')
+            .mockClear()
+            .mockRejectedValueOnce(new Error('error al conectar la base de datos'))
+            .mockRejectedValueOnce(new Error('error al conectar la base de datos'))
+            .mockResolvedValueOnce(undefined)
+
+        const connected = await connectDB(3,1)
+
+        expect(connected).toBe(true)
+        expect(authenticateSpy).toHaveBeenCalledTimes(3)
+    })
+    it('should give up after the last attempt',async()=>{
+        jest.spyOn(db,'authenticate')
+            .mockRejectedValueOnce(new Error('error al conectar la base de datos'))
+            .mockRejectedValueOnce(new Error('error al conectar la base de datos'))
+
+        const connected = await connectDB(2,1)
+
+        expect(connected).toBe(false)
+    })
+})
+
+describe('GET /health',()=>{
+    it('should report that the process is alive',async()=>{
+        const response = await request(server).get('/health')
+        expect(response.status).toBe(200)
+        expect(response.body.status).toBe('ok')
+    })
+})
+
+describe('GET /ready',()=>{
+    it('should report when the database is reachable',async()=>{
+        jest.spyOn(db,'authenticate').mockResolvedValueOnce(undefined)
+        const response = await request(server).get('/ready')
+        expect(response.status).toBe(200)
+        expect(response.body.database).toBe('up')
+    })
+    it('should return 503 when the database is unreachable',async()=>{
+        jest.spyOn(db,'authenticate').mockRejectedValueOnce(new Error('error al conectar la base de datos'))
+        const response = await request(server).get('/ready')
+        expect(response.status).toBe(503)
+        expect(response.body.database).toBe('down')
+    })
+})
+
+describe('Request ID',()=>{
+    it('should echo the X-Request-Id header',async()=>{
+        const response = await request(server).get('/health').set('X-Request-Id','abc-123')
+        expect(response.headers['x-request-id']).toBe('abc-123')
+    })
+    it('should generate a request ID when none is sent',async()=>{
+        const response = await request(server).get('/health')
+        expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/)
+    })
+})
@@ -0,0 +1,76 @@
+import express from 'express'
+import request from 'supertest'
+import { createResponseCache } from '..'
+import { createMemoryStore } from '../memory'
+import { errorHandler } from '../../middleware'
+import { NotFoundError } from '../../errors'
+
+const createApp=()=>{
+    const cache=createResponseCache(createMemoryStore(10))
+    const handler=jest.fn((req:express.Request,res:express.Response)=>{
+        res.json({data:{id:req.params.id,query:req.query}})
+    })
+    const app = express()
+    app.get('/products/missing',cache.route('product',60),()=>{throw new NotFoundError('PRODUCT_NOT_FOUND')})
+    app.get('/products/:id',cache.route('product',60),handler)
+    app.get('/uncached/:id',cache.route('uncached',0),handler)
+    app.use(errorHandler)
+    return {app,cache,handler}
+}
+
+describe('createResponseCache',()=>{
+    it('should serve repeated requests from the cache',async()=>{
+        const{app,cache,handler}=createApp()
+        const first = await request(app).get('/products/1?b=2&a=1')
+        expect(first.status).toBe(200)
+        expect(first.headers['x-cache']).toBe('MISS')
+        expect(first.headers['cache-control']).toBe('public, max-age=60')
+
+        const second = await request(app).get('/products/1?a=1&b=2')
+        expect(second.status).toBe(200)
+        expect(second.headers['x-cache']).toBe('HIT')
+        expect(second.headers['cache-control']).toBe('public, max-age=60')
+        expect(second.headers['etag']).toBe(first.headers['etag'])
+        expect(second.body).toEqual(first.body)
+        expect(handler).toHaveBeenCalledTimes(1)
+        expect(cache.stats()).toEqual({product:{hits:1,misses:1,hitRate:0.5}})
+    })
+    it('should use different keys for different query parameters and languages',async()=>{
+        const{app,handler}=createApp()
+        await request(app).get('/products/1?currency=EUR')
+        await request(app).get('/products/1?currency=MXN')
+        await request(app).get('/products/1?currency=MXN').set('Accept-Language','en')
+        expect(handler).toHaveBeenCalledTimes(3)
+    })
+    it('should answer 304 when the cached ETag is still current',async()=>{
+        const{app}=createApp()
+        const first = await request(app).get('/products/1')
+        const response = await request(app).get('/products/1').set('If-None-Match',first.headers['etag'])
+        expect(response.status).toBe(304)
+        expect(response.headers['x-cache']).toBe('HIT')
+    })
+    it('should not cache error responses',async()=>{
+        const{app,cache}=createApp()
+        await request(app).get('/products/missing')
+        const response = await request(app).get('/products/missing')
+        expect(response.status).toBe(404)
+        expect(response.headers['x-cache']).toBe('MISS')
+        expect(response.headers).not.toHaveProperty('cache-control')
+        expect(cache.stats().product.hits).toBe(0)
+    })
+    it('should read again after the cache is invalidated',async()=>{
+        const{app,cache,handler}=createApp()
+        await request(app).get('/products/1')
+        await cache.invalidate()
+        const response = await request(app).get('/products/1')
+        expect(response.headers['x-cache']).toBe('MISS')
+        expect(handler).toHaveBeenCalledTimes(2)
+    })
+    it('should skip the routes without TTL',async()=>{
+        const{app,handler}=createApp()
+        await request(app).get('/uncached/1')
+        const response = await request(app).get('/uncached/1')
+        expect(response.headers).not.toHaveProperty('x-cache')
+        expect(handler).toHaveBeenCalledTimes(2)
+    })
+})
@@ -0,0 +1,32 @@
+import { createMemoryStore } from '../memory'
+
+describe('createMemoryStore',()=>{
+    afterEach(()=>{
+        jest.useRealTimers()
+    })
+
+    it('should return the saved responses until they expire',async()=>{
+        jest.useFakeTimers()
+        const store=createMemoryStore(10)
+        await store.set('productos',{body:'[]',etag:'"1"'},1000)
+        expect(await store.get('productos')).toEqual({body:'[]',etag:'"1"'})
+        jest.advanceTimersByTime(1000)
+        expect(await store.get('productos')).toBeUndefined()
+    })
+    it('should evict the least recently used entry when it is full',async()=>{
+        const store=createMemoryStore(2)
+        await store.set('a',{body:'a'},60000)
+        await store.set('b',{body:'b'},60000)
+        await store.get('a')
+        await store.set('c',{body:'c'},60000)
+        expect(await store.get('a')).toEqual({body:'a'})
+        expect(await store.get('b')).toBeUndefined()
+        expect(await store.get('c')).toEqual({body:'c'})
+    })
+    it('should remove every entry when it is cleared',async()=>{
+        const store=createMemoryStore(10)
+        await store.set('a',{body:'a'},60000)
+        await store.clear()
+        expect(await store.get('a')).toBeUndefined()
+    })
+})
@@ -0,0 +1,119 @@
+import { Request, RequestHandler } from 'express'
+import type { Transaction } from 'sequelize'
+import config from '../config/env'
+import { resolveLocale } from '../i18n'
+import logger from '../utils/logger'
+import { createMemoryStore } from './memory'
+
+export type CachedResponse={
+    body:string
+    etag?:string
+}
+
+// Cualquier cache (memoria, Redis...) que guarde respuestas por clave durante un tiempo
+export interface CacheStore{
+    get(key:string):Promise<CachedResponse | undefined>
+    set(key:string,value:CachedResponse,ttlMs:number):Promise<void>
+    clear():Promise<void>
+}
+
+export type CacheStats=Record<string,{
+    hits:number
+    misses:number
+    hitRate:number
+}>
+
+// La misma URL con los parametros en otro orden (o en otro idioma) comparte clave
+const cacheKey=(name:string,req:Request)=>{
+    const query=Object.keys(req.query).sort().map(key=>[key,req.query[key]])
+    return `${name}:${resolveLocale(req)}:${req.path}:${JSON.stringify(query)}`
+}
+
+export const createResponseCache=(store:CacheStore)=>{
+    const counters=new Map<string,{hits:number,misses:number}>()
+    // Cada invalidacion cambia la generacion; una respuesta leida antes no se guarda
+    let generation=0
+
+    const routeCounters=(name:string)=>{
+        if(!counters.has(name)){
+            counters.set(name,{hits:0,misses:0})
+        }
+        return counters.get(name)!
+    }
+
+    const invalidate=async()=>{
+        generation++
+        await store.clear()
+    }
+
+    return {
+        // Solo se guardan las respuestas 200; los errores siempre llegan al handler
+        route(name:string,ttlSeconds:number):RequestHandler{
+            return async(req,res,next)=>{
+                if(ttlSeconds<=0 || req.method!=='GET'){
+                    next()
+                    return
+                }
+                const key=cacheKey(name,req)
+                const counter=routeCounters(name)
+                let cached:CachedResponse | undefined
+                try {
+                    cached = await store.get(key)
+                } catch (error) {
+                    logger.warn({err:error,key},'No se pudo leer la cache')
+                }
+                res.set('Cache-Control',`public, max-age=${ttlSeconds}`)
+                if(cached){
+                    counter.hits++
+                    res.set('X-Cache','HIT')
+                    if(cached.etag){
+                        res.set('ETag',cached.etag)
+                    }
+                    res.type('json').send(cached.body)
+                    return
+                }
+                counter.misses++
+                res.set('X-Cache','MISS')
+                const startedAt=generation
+                const json=res.json.bind(res)
+                res.json=body=>{
+                    if(res.statusCode!==200){
+                        res.removeHeader('Cache-Control')
+                    }else if(startedAt===generation){
+                        const etag=res.get('ETag')
+                        store.set(key,{body:JSON.stringify(body),...(etag && {etag})},ttlSeconds*1000)
+                            .catch(error=>logger.warn({err:error,key},'No se pudo guardar en la cache'))
+                    }
+                    return json(body)
+                }
+                next()
+            }
+        },
+        invalidate,
+        // Las respuestas escritas dentro de una transaccion se invalidan al confirmarla
+        invalidateAfterCommit(options:{transaction?:Transaction | null}={}){
+            const clear=()=>{
+                invalidate().catch(error=>logger.warn({err:error},'No se pudo invalidar la cache'))
+            }
+            generation++
+            if(options.transaction){
+                options.transaction.afterCommit(clear)
+            }else{
+                clear()
+            }
+        },
+        stats():CacheStats{
+            return Object.fromEntries([...counters].map(([name,{hits,misses}])=>[name,{
+                hits,
+                misses,
+                hitRate:hits+misses ? hits/(hits+misses) : 0
+            }]))
+        }
+    }
+}
+
+export type ResponseCache=ReturnType<typeof createResponseCache>
+
+const productCache=createResponseCache(createMemoryStore(config.cache.maxEntries))
+
+export default productCache
@@ -0,0 +1,35 @@
+import type { CachedResponse, CacheStore } from '.'
+
+type Entry={
+    value:CachedResponse
+    expiresAt:number
+}
+
+// LRU en memoria: el Map conserva el orden de insercion, asi que la primera clave es la menos usada
+export const createMemoryStore=(maxEntries:number):CacheStore=>{
+    const entries=new Map<string,Entry>()
+    return {
+        async get(key){
+            const entry=entries.get(key)
+            if(!entry){
+                return undefined
+            }
+            entries.delete(key)
+            if(entry.expiresAt<=Date.now()){
+                return undefined
+            }
+            entries.set(key,entry)
+            return entry.value
+        },
+        async set(key,value,ttlMs){
+            entries.delete(key)
+            entries.set(key,{value,expiresAt:Date.now()+ttlMs})
+            while(entries.size>maxEntries){
+                entries.delete(entries.keys().next().value!)
+            }
+        },
+        async clear(){
+            entries.clear()
+        }
+    }
+}
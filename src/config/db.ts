@@ -1,12 +1,11 @@
 import { Sequelize } from "sequelize-typescript";
-import dotenv from 'dotenv'
-dotenv.config()
+import config from './env'
 
 
-const db = new Sequelize(process.env.DATABASE_URL!,{
+const db = new Sequelize(config.databaseUrl,{
     models:[__dirname + '/../models/**/*'],
     logging:false
 });
 
 
-export default db 
\ No newline at end of file
+export default db 
@@ -0,0 +1,186 @@
+import dotenv from 'dotenv'
+import os from 'os'
+import path from 'path'
+dotenv.config()
+
+export const ENVIRONMENTS=['development','test','production'] as const
+export type Environment=typeof ENVIRONMENTS[number]
+
+export const LOG_LEVELS=['fatal','error','warn','info','debug','trace','silent'] as const
+export type LogLevel=typeof LOG_LEVELS[number]
+
+export type Config={
+    env:Environment
+    port:number
+    databaseUrl:string
+    dbConnectRetries:number
+    corsOrigins:string[]
+    jwtSecret:string
+    jwtExpiresIn:string
+    shutdownTimeout:number
+    seedUserPassword:string
+    logLevel:LogLevel
+    trustProxy:number
+    bodyLimit:string
+    importBodyLimit:string
+    uploadDir:string
+    imageMaxSize:number
+    defaultCurrency:string
+    rateLimit:{
+        windowMs:number
+        readMax:number
+        writeMax:number
+    }
+    webhooks:{
+        timeoutMs:number
+        maxAttempts:number
+        retryDelayMs:number
+        pollIntervalMs:number
+    }
+    cache:{
+        maxEntries:number
+        productsTtl:number
+        productTtl:number
+    }
+    metrics:{
+        enabled:boolean
+    }
+}
+
+type Env=Record<string,string | undefined>
+
+// Valores por defecto segun el entorno; en produccion todo lo sensible es obligatorio
+const DEFAULTS:Record<Environment,Partial<Record<string,string>>>={
+    development:{
+        PORT:'5000',
+        CORS_ORIGINS:'http://localhost:5173',
+        JWT_SECRET:'development-secret',
+        SEED_USER_PASSWORD:'password123',
+        LOG_LEVEL:'debug'
+    },
+    test:{
+        PORT:'5000',
+        CORS_ORIGINS:'http://localhost:5173',
+        JWT_SECRET:'test-secret',
+        SEED_USER_PASSWORD:'password123',
+        LOG_LEVEL:'silent',
+        UPLOAD_DIR:path.join(os.tmpdir(),'rest-api-uploads'),
+        RATE_LIMIT_READ_MAX:'10000',
+        RATE_LIMIT_WRITE_MAX:'10000',
+        CACHE_PRODUCTS_TTL:'0',
+        CACHE_PRODUCT_TTL:'0',
+        METRICS_ENABLED:'false'
+    },
+    production:{
+        PORT:'5000',
+        LOG_LEVEL:'info'
+    }
+}
+
+export class ConfigError extends Error{
+    constructor(public issues:string[]){
+        super(`Configuracion no valida:\n${issues.map(issue=>`  - ${issue}`).join('\n')}`)
+        this.name='ConfigError'
+    }
+}
+
+export const loadConfig=(env:Env=process.env):Config=>{
+    const issues:string[]=[]
+    const nodeEnv=(env.NODE_ENV || 'development') as Environment
+    if(!ENVIRONMENTS.includes(nodeEnv)){
+        issues.push(`NODE_ENV debe ser uno de: ${ENVIRONMENTS.join(', ')} (recibido "${env.NODE_ENV}")`)
+    }
+    const defaults=DEFAULTS[nodeEnv] ?? {}
+    const read=(name:string)=>{
+        const value=env[name]?.trim()
+        return value ? value : defaults[name]
+    }
+    const required=(name:string)=>{
+        const value=read(name)
+        if(value===undefined){
+            issues.push(`${name} es obligatorio`)
+        }
+        return value ?? ''
+    }
+    const integer=(name:string,fallback:number,min=0)=>{
+        const value=read(name)
+        if(value===undefined){
+            return fallback
+        }
+        const parsed=Number(value)
+        if(!Number.isInteger(parsed) || parsed<min){
+            issues.push(`${name} debe ser un entero mayor o igual a ${min} (recibido "${value}")`)
+        }
+        return parsed
+    }
+    const origins=(name:string)=>{
+        const list=required(name).split(',').map(origin=>origin.trim()).filter(Boolean)
+        list.filter(origin=>!URL.canParse(origin)).forEach(origin=>{
+            issues.push(`${name} contiene un origen no valido: "${origin}"`)
+        })
+        return list
+    }
+
+    const oneOf=<T extends string>(name:string,values:readonly T[],fallback:T)=>{
+        const value=read(name) ?? fallback
+        if(!values.includes(value as T)){
+            issues.push(`${name} debe ser uno de: ${values.join(', ')} (recibido "${value}")`)
+        }
+        return value as T
+    }
+
+    const databaseUrl=required('DATABASE_URL')
+    if(databaseUrl && !/^postgres(ql)?:\/\//.test(databaseUrl)){
+        issues.push('DATABASE_URL debe ser una URL de PostgreSQL')
+    }
+    // FRONTEND_URL se mantiene como alias de un unico origen
+    const corsVariable=env.FRONTEND_URL?.trim() && !env.CORS_ORIGINS?.trim() ? 'FRONTEND_URL' : 'CORS_ORIGINS'
+    const corsOrigins=origins(corsVariable)
+
+    const config:Config={
+        env:nodeEnv,
+        port:integer('PORT',5000,1),
+        databaseUrl,
+        dbConnectRetries:integer('DB_CONNECT_RETRIES',5,1),
+        corsOrigins,
+        jwtSecret:required('JWT_SECRET'),
+        jwtExpiresIn:read('JWT_EXPIRES_IN') ?? '1d',
+        shutdownTimeout:integer('SHUTDOWN_TIMEOUT_MS',10000),
+        seedUserPassword:read('SEED_USER_PASSWORD') ?? '',
+        logLevel:oneOf('LOG_LEVEL',LOG_LEVELS,'info'),
+        trustProxy:integer('TRUST_PROXY',0),
+        bodyLimit:read('BODY_LIMIT') ?? '100kb',
+        importBodyLimit:read('IMPORT_BODY_LIMIT') ?? '1mb',
+        uploadDir:read('UPLOAD_DIR') ?? 'uploads',
+        imageMaxSize:integer('IMAGE_MAX_SIZE',5*1024*1024,1),
+        defaultCurrency:oneOf('DEFAULT_CURRENCY',Intl.supportedValuesOf('currency'),'USD'),
+        rateLimit:{
+            windowMs:integer('RATE_LIMIT_WINDOW_MS',60000,1),
+            readMax:integer('RATE_LIMIT_READ_MAX',300,1),
+            writeMax:integer('RATE_LIMIT_WRITE_MAX',30,1)
+        },
+        webhooks:{
+            timeoutMs:integer('WEBHOOK_TIMEOUT_MS',5000,1),
+            maxAttempts:integer('WEBHOOK_MAX_ATTEMPTS',6,1),
+            retryDelayMs:integer('WEBHOOK_RETRY_DELAY_MS',30000,1),
+            pollIntervalMs:integer('WEBHOOK_POLL_INTERVAL_MS',60000,1)
+        },
+        // Segundos que se guarda cada respuesta; 0 desactiva la cache de esa ruta
+        cache:{
+            maxEntries:integer('CACHE_MAX_ENTRIES',1000,1),
+            productsTtl:integer('CACHE_PRODUCTS_TTL',30),
+            productTtl:integer('CACHE_PRODUCT_TTL',60)
+        },
+        metrics:{
+            enabled:oneOf('METRICS_ENABLED',['true','false'] as const,'true')==='true'
+        }
+    }
+    if(issues.length){
+        throw new ConfigError(issues)
+    }
+    return config
+}
+
+const config=loadConfig()
+
+export default config
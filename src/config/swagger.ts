@@ -8,15 +8,48 @@ const options:swaggerJSDoc.Options ={
             {
                 name:'Products',
                 description:'API operations related to products'
+            },
+            {
+                name:'Categories',
+                description:'API operations related to product categories'
+            },
+            {
+                name:'Orders',
+                description:'API operations related to customer orders'
+            },
+            {
+                name:'Webhooks',
+                description:'API operations related to product event notifications'
+            },
+            {
+                name:'Exchange rates',
+                description:'API operations related to currency conversion'
+            },
+            {
+                name:'Cache',
+                description:'API operations related to the response cache'
+            },
+            {
+                name:'Auth',
+                description:'API operations related to user authentication'
             }
         ],
+        components:{
+            securitySchemes:{
+                bearerAuth:{
+                    type:'http',
+                    scheme:'bearer',
+                    bearerFormat:'JWT'
+                }
+            }
+        },
         info:{
             title:'REST API node.js /Express /TypeScript',
             version:'1.0.0',
-            description:'API Docs for products'
+            description:'API Docs for products. Messages are returned in Spanish (default) or English, chosen with the `lang` query parameter or the `Accept-Language` header'
         }
     },
-    apis:['./src/router.ts']
+    apis:['./src/router.ts','./src/routes/*.ts']
 }
 
 const swaggerSpec = swaggerJSDoc(options)
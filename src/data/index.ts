@@ -1,11 +1,76 @@
 import {exit} from 'node:process'
 import db from '../config/db'
+import { migrator } from './migrator'
+import { seedCatalog } from './seed'
+import User from '../models/User.model'
 
+const migrate=async()=>{
+    const migrations=await migrator.up()
+    console.log(`Migraciones ejecutadas: ${migrations.length}`)
+    migrations.forEach(migration=>console.log(`  up   ${migration.name}`))
+}
+
+const rollback=async()=>{
+    const all=process.argv.includes('--all')
+    const migrations=await migrator.down(all ? {to:0 as const} : undefined)
+    console.log(`Migraciones revertidas: ${migrations.length}`)
+    migrations.forEach(migration=>console.log(`  down ${migration.name}`))
+}
+
+const status=async()=>{
+    const executed=await migrator.executed()
+    const pending=await migrator.pending()
+    executed.forEach(migration=>console.log(`  [x] ${migration.name}`))
+    pending.forEach(migration=>console.log(`  [ ] ${migration.name}`))
+    console.log(`${executed.length} ejecutadas, ${pending.length} pendientes`)
+}
 
-const clearDB=async()=>{
+const seed=async()=>{
+    await seedCatalog()
+    console.log("Datos de ejemplo cargados correctamente")
+}
+
+// Los administradores no se registran por la API; si el email ya existe solo se cambia su rol
+const createAdmin=async()=>{
+    const[email,name='Administrador']=process.argv.slice(3)
+    const password=process.env.ADMIN_PASSWORD
+    if(!email || !password){
+        throw new Error('Uso: ADMIN_PASSWORD=<password> ts-node ./src/data create-admin <email> [nombre]')
+    }
+    const[user,created]=await User.findOrCreate({where:{email},defaults:{name,email,password,role:'admin'}})
+    if(!created){
+        await user.update({role:'admin'})
+    }
+    console.log(`${email} es administrador`)
+}
+
+// Elimina todas las tablas, incluidas las creadas con sync(), y vuelve a migrar
+const clear=async()=>{
+    const queryInterface=db.getQueryInterface()
+    await queryInterface.dropAllTables()
+    await queryInterface.dropAllEnums()
+    await migrator.up()
+    console.log("Datos eliminados correctamente")
+}
+
+const commands:Record<string,()=>Promise<void>>={
+    migrate,
+    rollback,
+    status,
+    seed,
+    clear,
+    'create-admin':createAdmin
+}
+
+const run=async(name:string)=>{
+    const command=commands[name]
+    if(!command){
+        console.log(`Uso: ts-node ./src/data <${Object.keys(commands).join('|')}> [--all]`)
+        exit(1)
+    }
     try {
-        await db.sync({force:true})
-        console.log("Datos eliminados correctamente")
+        await command()
+        await db.close()
         exit(0)
     } catch (error) {
         console.log(error)
@@ -13,7 +78,5 @@ const clearDB=async()=>{
     }
 }
 
-if(process.argv[2]==="--clear"){
-    clearDB()
-}
-
+// --clear se mantiene por compatibilidad con el script pretest
+run(process.argv[2]?.replace(/^--/,''))
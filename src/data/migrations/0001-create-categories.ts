@@ -0,0 +1,16 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('categories',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        name:{type:DataTypes.STRING(50),allowNull:false,unique:true},
+        description:{type:DataTypes.STRING(255)},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('categories')
+}
@@ -0,0 +1,27 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('products',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        name:{type:DataTypes.STRING(100)},
+        price:{type:DataTypes.FLOAT},
+        availability:{type:DataTypes.BOOLEAN,defaultValue:true},
+        stock:{type:DataTypes.INTEGER,allowNull:false,defaultValue:0},
+        categoryId:{
+            type:DataTypes.INTEGER,
+            references:{model:'categories',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'RESTRICT'
+        },
+        version:{type:DataTypes.INTEGER,allowNull:false,defaultValue:0},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false},
+        deletedAt:{type:DataTypes.DATE}
+    })
+    await queryInterface.addIndex('products',['categoryId'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('products')
+}
@@ -0,0 +1,19 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('users',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        name:{type:DataTypes.STRING(100),allowNull:false},
+        email:{type:DataTypes.STRING(100),allowNull:false,unique:true},
+        password:{type:DataTypes.STRING(60),allowNull:false},
+        role:{type:DataTypes.ENUM('admin','editor','viewer'),defaultValue:'viewer'},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('users')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_users_role"')
+}
@@ -0,0 +1,27 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('stock_movements',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        productId:{
+            type:DataTypes.INTEGER,
+            allowNull:false,
+            references:{model:'products',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'CASCADE'
+        },
+        type:{type:DataTypes.ENUM('increase','decrease'),allowNull:false},
+        quantity:{type:DataTypes.INTEGER,allowNull:false},
+        reason:{type:DataTypes.STRING(255),allowNull:false},
+        stockAfter:{type:DataTypes.INTEGER,allowNull:false},
+        userId:{type:DataTypes.INTEGER},
+        createdAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('stock_movements',['productId','createdAt'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('stock_movements')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_stock_movements_type"')
+}
@@ -0,0 +1,23 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('product_audits',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        productId:{type:DataTypes.INTEGER,allowNull:false},
+        action:{
+            type:DataTypes.ENUM('create','update','availability','delete','restore','purge'),
+            allowNull:false
+        },
+        oldValues:{type:DataTypes.JSONB},
+        newValues:{type:DataTypes.JSONB},
+        userId:{type:DataTypes.INTEGER},
+        createdAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('product_audits',['productId','createdAt'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('product_audits')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_product_audits_action"')
+}
@@ -0,0 +1,29 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+// Configuracion de busqueda en espanol que ignora acentos (cafe = café)
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.addColumn('products','description',{type:DataTypes.TEXT})
+    await queryInterface.sequelize.query('CREATE EXTENSION IF NOT EXISTS unaccent')
+    // dropAllTables (data --clear) no elimina la configuracion, asi que puede quedar de una ejecucion anterior
+    await queryInterface.sequelize.query('DROP TEXT SEARCH CONFIGURATION IF EXISTS es_unaccent')
+    await queryInterface.sequelize.query('CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish)')
+    await queryInterface.sequelize.query(`
+        ALTER TEXT SEARCH CONFIGURATION es_unaccent
+        ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem
+    `)
+    await queryInterface.sequelize.query(`
+        ALTER TABLE products ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+            setweight(to_tsvector('es_unaccent', coalesce(name, '')), 'A') ||
+            setweight(to_tsvector('es_unaccent', coalesce(description, '')), 'B')
+        ) STORED
+    `)
+    await queryInterface.addIndex('products',['searchVector'],{name:'products_search_vector',using:'GIN'})
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.removeIndex('products','products_search_vector')
+    await queryInterface.removeColumn('products','searchVector')
+    await queryInterface.sequelize.query('DROP TEXT SEARCH CONFIGURATION IF EXISTS es_unaccent')
+    await queryInterface.removeColumn('products','description')
+}
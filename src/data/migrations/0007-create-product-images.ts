@@ -0,0 +1,36 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('product_images',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        productId:{
+            type:DataTypes.INTEGER,
+            allowNull:false,
+            references:{model:'products',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'CASCADE'
+        },
+        key:{type:DataTypes.STRING(255),allowNull:false},
+        thumbnailKey:{type:DataTypes.STRING(255),allowNull:false},
+        contentType:{type:DataTypes.STRING(50),allowNull:false},
+        size:{type:DataTypes.INTEGER,allowNull:false},
+        width:{type:DataTypes.INTEGER,allowNull:false},
+        height:{type:DataTypes.INTEGER,allowNull:false},
+        position:{type:DataTypes.INTEGER,allowNull:false},
+        isPrimary:{type:DataTypes.BOOLEAN,allowNull:false,defaultValue:false},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('product_images',['productId','position'])
+    // Un producto solo puede tener una imagen principal
+    await queryInterface.addIndex('product_images',['productId'],{
+        name:'product_images_primary',
+        unique:true,
+        where:{isPrimary:true}
+    })
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('product_images')
+}
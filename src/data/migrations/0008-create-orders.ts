@@ -0,0 +1,48 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('orders',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        userId:{type:DataTypes.INTEGER,allowNull:false},
+        status:{
+            type:DataTypes.ENUM('pending','paid','shipped','cancelled'),
+            allowNull:false,
+            defaultValue:'pending'
+        },
+        total:{type:DataTypes.FLOAT,allowNull:false},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('orders',['userId','createdAt'])
+    await queryInterface.addIndex('orders',['status'])
+    await queryInterface.createTable('order_items',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        orderId:{
+            type:DataTypes.INTEGER,
+            allowNull:false,
+            references:{model:'orders',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'CASCADE'
+        },
+        // Se conserva el pedido aunque el producto se elimine definitivamente
+        productId:{
+            type:DataTypes.INTEGER,
+            references:{model:'products',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'SET NULL'
+        },
+        productName:{type:DataTypes.STRING(100),allowNull:false},
+        unitPrice:{type:DataTypes.FLOAT,allowNull:false},
+        quantity:{type:DataTypes.INTEGER,allowNull:false},
+        subtotal:{type:DataTypes.FLOAT,allowNull:false}
+    })
+    await queryInterface.addIndex('order_items',['orderId'])
+    await queryInterface.addIndex('order_items',['productId'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('order_items')
+    await queryInterface.dropTable('orders')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_orders_status"')
+}
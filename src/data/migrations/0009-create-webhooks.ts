@@ -0,0 +1,47 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('webhook_subscriptions',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        url:{type:DataTypes.STRING(2048),allowNull:false},
+        events:{type:DataTypes.ARRAY(DataTypes.STRING(50)),allowNull:false},
+        description:{type:DataTypes.STRING(255)},
+        secret:{type:DataTypes.STRING(64),allowNull:false},
+        active:{type:DataTypes.BOOLEAN,allowNull:false,defaultValue:true},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.createTable('webhook_deliveries',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        subscriptionId:{
+            type:DataTypes.INTEGER,
+            allowNull:false,
+            references:{model:'webhook_subscriptions',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'CASCADE'
+        },
+        event:{type:DataTypes.STRING(50),allowNull:false},
+        payload:{type:DataTypes.JSONB,allowNull:false},
+        status:{
+            type:DataTypes.ENUM('pending','succeeded','failed'),
+            allowNull:false,
+            defaultValue:'pending'
+        },
+        attempts:{type:DataTypes.INTEGER,allowNull:false,defaultValue:0},
+        responseStatus:{type:DataTypes.INTEGER},
+        error:{type:DataTypes.TEXT},
+        nextAttemptAt:{type:DataTypes.DATE},
+        deliveredAt:{type:DataTypes.DATE},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('webhook_deliveries',['subscriptionId','createdAt'])
+    await queryInterface.addIndex('webhook_deliveries',['status','nextAttemptAt'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('webhook_deliveries')
+    await queryInterface.dropTable('webhook_subscriptions')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_webhook_deliveries_status"')
+}
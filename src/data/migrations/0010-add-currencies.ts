@@ -0,0 +1,52 @@
+import { DataTypes } from 'sequelize'
+import config from '../../config/env'
+import type { Migration } from '../migrator'
+
+// Cada columna conserva la nulabilidad con la que se creo
+const MONEY_COLUMNS:[table:string,column:string,allowNull:boolean][]=[
+    ['products','price',true],
+    ['orders','total',false],
+    ['order_items','unitPrice',false],
+    ['order_items','subtotal',false]
+]
+
+// Los precios pasan de FLOAT a DECIMAL exacto; los registros existentes quedan en la moneda por defecto
+export const up:Migration=async({context:queryInterface})=>{
+    for(const [table,column,allowNull] of MONEY_COLUMNS){
+        await queryInterface.changeColumn(table,column,{
+            type:DataTypes.DECIMAL(14,4),
+            allowNull
+        })
+    }
+    await queryInterface.addColumn('products','currency',{
+        type:DataTypes.CHAR(3),
+        allowNull:false,
+        defaultValue:config.defaultCurrency
+    })
+    await queryInterface.addColumn('orders','currency',{
+        type:DataTypes.CHAR(3),
+        allowNull:false,
+        defaultValue:config.defaultCurrency
+    })
+    await queryInterface.createTable('exchange_rates',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        base:{type:DataTypes.CHAR(3),allowNull:false},
+        quote:{type:DataTypes.CHAR(3),allowNull:false},
+        rate:{type:DataTypes.DECIMAL(18,8),allowNull:false},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('exchange_rates',['base','quote'],{unique:true})
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('exchange_rates')
+    await queryInterface.removeColumn('orders','currency')
+    await queryInterface.removeColumn('products','currency')
+    for(const [table,column,allowNull] of MONEY_COLUMNS){
+        await queryInterface.changeColumn(table,column,{
+            type:DataTypes.FLOAT,
+            allowNull
+        })
+    }
+}
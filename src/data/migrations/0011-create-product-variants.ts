@@ -0,0 +1,26 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    await queryInterface.createTable('product_variants',{
+        id:{type:DataTypes.INTEGER,primaryKey:true,autoIncrement:true},
+        productId:{
+            type:DataTypes.INTEGER,
+            allowNull:false,
+            references:{model:'products',key:'id'},
+            onUpdate:'CASCADE',
+            onDelete:'CASCADE'
+        },
+        sku:{type:DataTypes.STRING(64),allowNull:false,unique:true},
+        options:{type:DataTypes.JSONB,allowNull:false,defaultValue:{}},
+        price:{type:DataTypes.DECIMAL(14,4)},
+        availability:{type:DataTypes.BOOLEAN,allowNull:false,defaultValue:true},
+        createdAt:{type:DataTypes.DATE,allowNull:false},
+        updatedAt:{type:DataTypes.DATE,allowNull:false}
+    })
+    await queryInterface.addIndex('product_variants',['productId'])
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.dropTable('product_variants')
+}
@@ -0,0 +1,20 @@
+import { DataTypes } from 'sequelize'
+import type { Migration } from '../migrator'
+
+export const up:Migration=async({context:queryInterface})=>{
+    // Como el producto, la variante puede desaparecer sin perder la linea del pedido
+    await queryInterface.addColumn('order_items','variantId',{
+        type:DataTypes.INTEGER,
+        references:{model:'product_variants',key:'id'},
+        onUpdate:'CASCADE',
+        onDelete:'SET NULL'
+    })
+    await queryInterface.addColumn('order_items','sku',{
+        type:DataTypes.STRING(64)
+    })
+}
+
+export const down:Migration=async({context:queryInterface})=>{
+    await queryInterface.removeColumn('order_items','sku')
+    await queryInterface.removeColumn('order_items','variantId')
+}
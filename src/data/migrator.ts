@@ -0,0 +1,23 @@
+import { QueryInterface } from 'sequelize'
+import { SequelizeStorage, Umzug } from 'umzug'
+import db from '../config/db'
+
+export type Migration=typeof migrator._types.migration
+
+export const migrator=new Umzug({
+    migrations:{
+        glob:['migrations/*.{js,ts}',{cwd:__dirname,ignore:'**/*.d.ts'}],
+        // Sin extension, para que ts-node y el build compilado registren los mismos nombres
+        resolve:({name,path,context})=>{
+            const migration=require(path!)
+            return {
+                name:name.replace(/\.(js|ts)$/,''),
+                up:async()=>migration.up({context}),
+                down:async()=>migration.down({context})
+            }
+        }
+    },
+    context:db.getQueryInterface() as QueryInterface,
+    storage:new SequelizeStorage({sequelize:db,tableName:'migrations'}),
+    logger:undefined
+})
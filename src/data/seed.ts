@@ -0,0 +1,32 @@
+import config from '../config/env'
+import Category from '../models/Category.model'
+import ExchangeRate from '../models/ExchangeRate.model'
+import Product from '../models/Product.model'
+import User from '../models/User.model'
+import * as catalog from './seeds/catalog'
+
+// Idempotente: los registros existentes (por nombre, email o par de monedas) no se duplican
+export const seedCatalog=async()=>{
+    const categoryIds=new Map<string,number>()
+    for(const values of catalog.categories){
+        const[category]=await Category.findOrCreate({where:{name:values.name},defaults:values})
+        categoryIds.set(category.name,category.id)
+    }
+    for(const{category,...values} of catalog.products){
+        await Product.findOrCreate({
+            where:{name:values.name},
+            defaults:{
+                ...values,
+                availability:values.stock>0,
+                categoryId:categoryIds.get(category)
+            }
+        })
+    }
+    for(const values of catalog.exchangeRates){
+        await ExchangeRate.findOrCreate({where:{base:values.base,quote:values.quote},defaults:values})
+    }
+    const password=config.seedUserPassword
+    for(const values of catalog.users){
+        await User.findOrCreate({where:{email:values.email},defaults:{...values,password}})
+    }
+}
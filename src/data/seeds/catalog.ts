@@ -0,0 +1,32 @@
+export const categories=[
+    {name:'Monitores',description:'Monitores y pantallas para oficina y gaming'},
+    {name:'Perifericos',description:'Teclados, mouses y accesorios de escritorio'},
+    {name:'Audio',description:'Audifonos, bocinas y microfonos'},
+    {name:'Almacenamiento',description:'Discos duros, SSD y memorias'}
+]
+
+export const products=[
+    {name:'Monitor Curvo de 49 pulgadas',price:1299,stock:8,category:'Monitores'},
+    {name:'Monitor 27 pulgadas 4K',price:459.9,stock:15,category:'Monitores'},
+    {name:'Monitor Portatil 15.6 pulgadas',price:189,stock:0,category:'Monitores'},
+    {name:'Teclado Mecanico RGB',price:89.5,stock:40,category:'Perifericos'},
+    {name:'Mouse Inalambrico Ergonomico',price:49.99,stock:65,category:'Perifericos'},
+    {name:'Base para Laptop de Aluminio',price:35,stock:22,category:'Perifericos'},
+    {name:'Audifonos con Cancelacion de Ruido',price:249,stock:12,category:'Audio'},
+    {name:'Microfono USB de Condensador',price:119,stock:5,category:'Audio'},
+    {name:'Bocina Bluetooth Resistente al Agua',price:79.9,stock:0,category:'Audio'},
+    {name:'SSD NVMe 1TB',price:95,stock:30,category:'Almacenamiento'},
+    {name:'Disco Duro Externo 4TB',price:129,stock:18,category:'Almacenamiento'},
+    {name:'Memoria USB 128GB',price:19.99,stock:100,category:'Almacenamiento'}
+]
+
+export const exchangeRates=[
+    {base:'USD',quote:'EUR',rate:0.92},
+    {base:'USD',quote:'MXN',rate:17.1},
+    {base:'USD',quote:'JPY',rate:149.5}
+]
+
+export const users=[
+    {name:'Administrador',email:'admin@correo.com',role:'admin'},
+    {name:'Editor',email:'editor@correo.com',role:'editor'}
+] as const
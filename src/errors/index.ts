@@ -0,0 +1,100 @@
+import { DEFAULT_LOCALE, Locale, Message, MessageCode, toMessage, translate } from "../i18n"
+
+// Agrega el codigo a cada error de validacion y traduce su mensaje (incluidos los errores anidados de lotes e importaciones)
+const localizeDetail=(detail:unknown,locale:Locale):unknown=>{
+    if(typeof detail!=='object' || detail===null){
+        return detail
+    }
+    const localized:Record<string,unknown>={...detail}
+    if('msg' in detail){
+        const msg=toMessage(detail.msg)
+        localized.msg=translate(msg,locale)
+        localized.code=msg.code
+    }
+    for(const key of ['errors','nestedErrors']){
+        if(Array.isArray(localized[key])){
+            localized[key]=(localized[key] as unknown[]).map(nested=>localizeDetail(nested,locale))
+        }
+    }
+    return localized
+}
+
+export class AppError extends Error{
+    statusCode:number
+    code:string
+    reason:Message
+    details?:unknown
+
+    constructor(statusCode:number,code:string,reason:MessageCode | Message,details?:unknown){
+        const message=toMessage(reason)
+        // El mensaje del Error queda en el idioma por defecto para los logs
+        super(translate(message))
+        this.name=new.target.name
+        this.statusCode=statusCode
+        this.code=code
+        this.reason=message
+        this.details=details
+    }
+
+    toJSON(locale:Locale=DEFAULT_LOCALE){
+        return {
+            error:{
+                status:this.statusCode,
+                code:this.code,
+                reason:this.reason.code,
+                message:translate(this.reason,locale),
+                ...(this.details!==undefined && {
+                    details:Array.isArray(this.details) ? this.details.map(detail=>localizeDetail(detail,locale)) : this.details
+                })
+            }
+        }
+    }
+}
+
+export class NotFoundError extends AppError{
+    constructor(reason:MessageCode | Message='RESOURCE_NOT_FOUND'){
+        super(404,'NOT_FOUND',reason)
+    }
+}
+
+export class ValidationError extends AppError{
+    constructor(details:unknown[],reason:MessageCode | Message='INVALID_INPUT'){
+        super(400,'VALIDATION_ERROR',reason,details)
+    }
+}
+
+export class ConflictError extends AppError{
+    constructor(reason:MessageCode | Message='CONFLICT'){
+        super(409,'CONFLICT',reason)
+    }
+}
+
+export class UnauthorizedError extends AppError{
+    constructor(reason:MessageCode | Message='UNAUTHORIZED'){
+        super(401,'UNAUTHORIZED',reason)
+    }
+}
+
+export class ForbiddenError extends AppError{
+    constructor(reason:MessageCode | Message='FORBIDDEN'){
+        super(403,'FORBIDDEN',reason)
+    }
+}
+
+export class PreconditionFailedError extends AppError{
+    constructor(reason:MessageCode | Message='PRECONDITION_FAILED'){
+        super(412,'PRECONDITION_FAILED',reason)
+    }
+}
+
+export class UnprocessableEntityError extends AppError{
+    constructor(reason:MessageCode | Message='UNPROCESSABLE_ENTITY'){
+        super(422,'UNPROCESSABLE_ENTITY',reason)
+    }
+}
+
+export class TooManyRequestsError extends AppError{
+    constructor(reason:MessageCode | Message='TOO_MANY_REQUESTS'){
+        super(429,'TOO_MANY_REQUESTS',reason)
+    }
+}
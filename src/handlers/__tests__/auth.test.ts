@@ -0,0 +1,48 @@
+import request  from "supertest";
+import server from "../../server";
+
+
+describe('POST /api/auth/register',()=>{
+    it('should display validation errors', async()=>{
+        const response = await request(server).post('/api/auth/register').send({
+            email:'correo-no-valido',
+            password:'123'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(3)
+    })
+    it('should register a user and return a token', async()=>{
+        const response = await request(server).post('/api/auth/register').send({
+            name:'Juan',
+            email:'juan@correo.com',
+            password:'password123'
+        })
+        expect(response.status).toBe(201)
+        expect(response.body).toHaveProperty('token')
+        expect(response.body.data.email).toBe('juan@correo.com')
+        expect(response.body.data.role).toBe('viewer')
+        expect(response.body.data).not.toHaveProperty('password')
+    })
+})
+
+describe('POST /api/auth/login',()=>{
+    it('should reject invalid credentials', async()=>{
+        const response = await request(server).post('/api/auth/login').send({
+            email:'juan@correo.com',
+            password:'password-incorrecto'
+        })
+        expect(response.status).toBe(401)
+        expect(response.body.error.reason).toBe('INVALID_CREDENTIALS')
+        expect(response.body).not.toHaveProperty('token')
+    })
+    it('should return a token for valid credentials', async()=>{
+        const response = await request(server).post('/api/auth/login').send({
+            email:'juan@correo.com',
+            password:'password123'
+        })
+        expect(response.status).toBe(200)
+        expect(response.body).toHaveProperty('token')
+        expect(response.body.data).not.toHaveProperty('password')
+    })
+})
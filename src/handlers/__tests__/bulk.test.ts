@@ -0,0 +1,109 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+
+const token = generateJWT({id:1,role:'editor'})
+
+describe('POST /api/products/bulk',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/products/bulk').send({operations:[{op:'delete',id:1}]})
+        expect(response.status).toBe(401)
+    })
+    it('should require a list of operations',async()=>{
+        const response = await request(server).post('/api/products/bulk').set('Authorization',`Bearer ${token}`).send({operations:[]})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('BULK_SIZE')
+    })
+    it('should validate every operation with the rules of its single product route',async()=>{
+        const response = await request(server).post('/api/products/bulk').set('Authorization',`Bearer ${token}`).send({
+            mode:'partial',
+            operations:[
+                {op:'create',data:{name:'',price:-1}},
+                {op:'delete',id:1},
+                {op:'update',id:1,data:{price:5,color:'rojo'}},
+                {op:'availability',id:1,availability:'si'},
+                {op:'rename',id:1}
+            ]
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.reason).toBe('BULK_INVALID_OPERATIONS')
+        expect(response.body.error.details.map(detail=>detail.index)).toEqual([0,2,3,4])
+        expect(response.body.error.details[0].errors).toHaveLength(2)
+        expect(response.body.error.details[1].errors[0].code).toBe('UNKNOWN_FIELDS')
+        expect(response.body.error.details[2].errors[0].code).toBe('INVALID_AVAILABILITY')
+        expect(response.body.error.details[3].errors[0].code).toBe('INVALID_BULK_OPERATION')
+    })
+})
+
+describe('POST /api/products/bulk/price',()=>{
+    it('should validate the adjustment',async()=>{
+        const response = await request(server).post('/api/products/bulk/price').set('Authorization',`Bearer ${token}`).send({type:'discount',value:0})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details).toHaveLength(2)
+    })
+    it('should not allow a percentage that takes prices to zero',async()=>{
+        const response = await request(server).post('/api/products/bulk/price').set('Authorization',`Bearer ${token}`).send({type:'percentage',value:-100})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('ADJUSTMENT_PERCENTAGE_TOO_LOW')
+    })
+})
+
+describe('Bulk operations',()=>{
+    let monitorId:number
+    let mouseId:number
+    const getProduct=async(id:number)=>(await request(server).get(`/api/products/${id}`)).body.data
+
+    beforeAll(async()=>{
+        monitorId=(await Product.create({name:'Monitor --lote',price:100,stock:5})).id
+        mouseId=(await Product.create({name:'Mouse --lote',price:50,stock:5})).id
+    })
+    afterAll(async()=>{
+        await Product.destroy({where:{id:[monitorId,mouseId]},force:true})
+    })
+
+    it('should roll back every operation when one fails in atomic mode',async()=>{
+        const response = await request(server).post('/api/products/bulk').set('Authorization',`Bearer ${token}`).send({
+            operations:[
+                {op:'update',id:monitorId,data:{price:80}},
+                {op:'availability',id:mouseId,availability:false},
+                {op:'delete',id:999999}
+            ]
+        })
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('BULK_OPERATION_FAILED')
+        expect((await getProduct(monitorId)).price).toBe(100)
+        expect((await getProduct(mouseId)).availability).toBe(true)
+    })
+    it('should report the result of each operation in partial mode',async()=>{
+        const response = await request(server).post('/api/products/bulk').set('Authorization',`Bearer ${token}`).send({
+            mode:'partial',
+            operations:[
+                {op:'update',id:monitorId,data:{price:80}},
+                {op:'delete',id:999999},
+                {op:'availability',id:mouseId,availability:false}
+            ]
+        })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toMatchObject({mode:'partial',succeeded:2,failed:1})
+        expect(response.body.data.results.map(result=>result.status)).toEqual([200,404,200])
+        expect(response.body.data.results[1].error.reason).toBe('PRODUCT_NOT_FOUND')
+        expect((await getProduct(monitorId)).price).toBe(80)
+        expect((await getProduct(mouseId)).availability).toBe(false)
+    })
+    it('should adjust the prices of the filtered products',async()=>{
+        const response = await request(server).post('/api/products/bulk/price?search=--lote').set('Authorization',`Bearer ${token}`).send({
+            type:'percentage',
+            value:10
+        })
+        expect(response.status).toBe(200)
+        expect(response.body.data.dryRun).toBe(false)
+        expect(response.body.data.updated).toBe(2)
+        expect(response.body.data.products.map(({id,oldPrice,price})=>({id,oldPrice,price}))).toEqual([
+            {id:monitorId,oldPrice:80,price:88},
+            {id:mouseId,oldPrice:50,price:55}
+        ])
+        expect((await getProduct(monitorId)).price).toBe(88)
+        expect((await getProduct(mouseId)).price).toBe(55)
+    })
+})
@@ -0,0 +1,22 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+
+const token = generateJWT({id:1,role:'admin'})
+const editorToken = generateJWT({id:2,role:'editor'})
+
+describe('GET /api/cache',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).get('/api/cache')
+        expect(response.status).toBe(401)
+    })
+    it('should only allow admins',async()=>{
+        const response = await request(server).get('/api/cache').set('Authorization',`Bearer ${editorToken}`)
+        expect(response.status).toBe(403)
+    })
+    it('should return the counters of each cached route',async()=>{
+        const response = await request(server).get('/api/cache').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body).toHaveProperty('data')
+    })
+})
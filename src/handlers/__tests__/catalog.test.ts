@@ -0,0 +1,121 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import { Op } from "sequelize";
+import config from "../../config/env";
+import Product from "../../models/Product.model";
+import ProductAudit from "../../models/ProductAudit.model";
+import StockMovement from "../../models/StockMovement.model";
+
+const token = generateJWT({id:1,role:'admin'})
+
+describe('POST /api/products/import',()=>{
+    it('should report the invalid rows of a CSV file',async()=>{
+        const response = await request(server).post('/api/products/import')
+            .set('Authorization',`Bearer ${token}`)
+            .set('Content-Type','text/csv')
+            .send('name,price\nMonitor Curvo,300\n,0\n')
+        expect(response.status).toBe(400)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(1)
+        expect(response.body.error.details[0].row).toBe(2)
+        expect(response.body.error.details[0].errors).toHaveLength(2)
+    })
+    it('should validate the rows without inserting them in dry run mode',async()=>{
+        const response = await request(server).post('/api/products/import?dryRun=true')
+            .set('Authorization',`Bearer ${token}`)
+            .send([
+                {name:'Teclado',price:80},
+                {name:'Audifonos',price:120,stock:5,availability:false}
+            ])
+        expect(response.status).toBe(200)
+        expect(response.body.data.dryRun).toBe(true)
+        expect(response.body.data.valid).toBe(2)
+        expect(response.body.data.created).toBe(0)
+    })
+    it('should accept imports larger than the default body limit',async()=>{
+        const rows=Array.from({length:1000},(_,index)=>({name:`Producto importado ${index}`,description:'Descripcion del producto importado'.repeat(2),price:10}))
+        const response = await request(server).post('/api/products/import?dryRun=true')
+            .set('Authorization',`Bearer ${token}`)
+            .send(rows)
+        expect(response.status).toBe(200)
+        expect(response.body.data.valid).toBe(1000)
+    })
+    it('should reject a body that is not a list of products',async()=>{
+        const response = await request(server).post('/api/products/import')
+            .set('Authorization',`Bearer ${token}`)
+            .send({name:'Teclado'})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('IMPORT_LIST_EXPECTED')
+    })
+})
+
+describe('GET /api/products/export',()=>{
+    it('should validate the export format',async()=>{
+        const response = await request(server).get('/api/products/export?format=xml')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_FORMAT')
+    })
+    it('should download the catalog as CSV',async()=>{
+        const response = await request(server).get('/api/products/export')
+        expect(response.status).toBe(200)
+        expect(response.headers['content-type']).toMatch(/csv/)
+        expect(response.headers['content-disposition']).toMatch(/productos\.csv/)
+        expect(response.text.split('\n')[0]).toBe('id,name,description,price,currency,availability,stock,categoryId,createdAt,updatedAt')
+    })
+})
+
+describe('Catalog import and export',()=>{
+    const findImported=()=>Product.findAll({where:{name:{[Op.like]:'%--importado'}},order:[['id','ASC']]})
+
+    afterAll(async()=>{
+        await Product.destroy({where:{name:{[Op.like]:'%--importado'}},force:true})
+    })
+
+    it('should insert the rows of a JSON import',async()=>{
+        const response = await request(server).post('/api/products/import')
+            .set('Authorization',`Bearer ${token}`)
+            .send([
+                {name:'Teclado --importado',price:80,stock:3},
+                {name:'Audifonos --importado',price:120,currency:'EUR',stock:2,availability:false}
+            ])
+        expect(response.status).toBe(201)
+        expect(response.body.data).toEqual({dryRun:false,valid:2,created:2})
+
+        const products = await findImported()
+        expect(products.map(product=>[product.name,product.price,product.currency,product.stock,product.availability])).toEqual([
+            ['Teclado --importado',80,config.defaultCurrency,3,true],
+            ['Audifonos --importado',120,'EUR',2,false]
+        ])
+        const ids=products.map(product=>product.id)
+        expect(await ProductAudit.count({where:{productId:ids,action:'create'}})).toBe(2)
+        expect(await StockMovement.count({where:{productId:ids,type:'increase'}})).toBe(2)
+    })
+    it('should treat blank CSV cells as missing optional fields',async()=>{
+        const response = await request(server).post('/api/products/import')
+            .set('Authorization',`Bearer ${token}`)
+            .set('Content-Type','text/csv')
+            .send('name,price,currency,stock,availability,categoryId\nMonitor --importado,300,,,,\nMouse --importado,25,USD,4,false,\n')
+        expect(response.status).toBe(201)
+        expect(response.body.data.created).toBe(2)
+
+        const[monitor,mouse]=(await findImported()).slice(2)
+        expect(monitor).toMatchObject({name:'Monitor --importado',currency:config.defaultCurrency,stock:0,availability:false,categoryId:null})
+        expect(mouse).toMatchObject({name:'Mouse --importado',currency:'USD',stock:4,availability:false})
+    })
+    it('should export the filtered catalog as JSON',async()=>{
+        const response = await request(server).get('/api/products/export?format=json&search=--importado&sort=name')
+        expect(response.status).toBe(200)
+        expect(response.headers['content-disposition']).toMatch(/productos\.json/)
+        const products=JSON.parse(response.text)
+        expect(products.map(product=>product.name)).toEqual(['Audifonos --importado','Monitor --importado','Mouse --importado','Teclado --importado'])
+        expect(products[0]).toMatchObject({price:120,currency:'EUR',availability:false,stock:2})
+    })
+    it('should export the filtered catalog as CSV',async()=>{
+        const response = await request(server).get('/api/products/export?search=Teclado --importado')
+        expect(response.status).toBe(200)
+        const[header,row]=response.text.trim().split('\n')
+        const values=Object.fromEntries(header.split(',').map((column,index)=>[column,row.split(',')[index]]))
+        expect(values).toMatchObject({name:'Teclado --importado',price:'80',currency:config.defaultCurrency,availability:'true',stock:'3'})
+    })
+})
@@ -0,0 +1,71 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+
+
+const token = generateJWT({id:1,role:'admin'})
+
+describe('POST /api/categories',()=>{
+    it('should display validation errors', async()=>{
+        const response = await request(server).post('/api/categories').set('Authorization',`Bearer ${token}`).send()
+        expect(response.status).toBe(400)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details[0].code).toBe('CATEGORY_NAME_REQUIRED')
+
+        expect(response.status).not.toEqual(201)
+    })
+    it('should create a new category',async()=>{
+        const response = await request(server).post('/api/categories').set('Authorization',`Bearer ${token}`).send({
+            name:'Perifericos'
+        })
+        expect(response.status).toBe(201)
+        expect(response.body).toHaveProperty('data')
+        expect(response.body.data.name).toBe('Perifericos')
+    })
+    it('should reject a duplicated category name',async()=>{
+        const response = await request(server).post('/api/categories').set('Authorization',`Bearer ${token}`).send({
+            name:'Perifericos'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('CATEGORY_NAME_TAKEN')
+    })
+})
+
+describe('GET /api/categories',()=>{
+    it('should return the categories',async()=>{
+        const response = await request(server).get('/api/categories')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(1)
+    })
+    it('should return a 404 response for a non-existent category',async()=>{
+        const response = await request(server).get('/api/categories/2000')
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('CATEGORY_NOT_FOUND')
+    })
+})
+
+describe('DELETE /api/categories/:id',()=>{
+    it('should not delete a category that still has products',async()=>{
+        const category = await request(server).post('/api/categories').set('Authorization',`Bearer ${token}`).send({name:'Monitores'})
+        const product = await Product.create({name:'Monitor --categoria',price:200,categoryId:category.body.data.id})
+        const response = await request(server).delete(`/api/categories/${category.body.data.id}`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('CATEGORY_HAS_PRODUCTS')
+
+        await product.destroy()
+        const trashed = await request(server).delete(`/api/categories/${category.body.data.id}`).set('Authorization',`Bearer ${token}`)
+        expect(trashed.status).toBe(409)
+        expect(trashed.body.error.reason).toBe('CATEGORY_HAS_PRODUCTS')
+
+        await product.destroy({force:true})
+        const deleted = await request(server).delete(`/api/categories/${category.body.data.id}`).set('Authorization',`Bearer ${token}`)
+        expect(deleted.status).toBe(200)
+    })
+    it('should delete an empty category',async()=>{
+        const category = await request(server).post('/api/categories').set('Authorization',`Bearer ${token}`).send({name:'Audio'})
+        const response = await request(server).delete(`/api/categories/${category.body.data.id}`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toBe('Categoria eliminada')
+    })
+})
@@ -0,0 +1,82 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+import ExchangeRate from "../../models/ExchangeRate.model";
+
+const token = generateJWT({id:1,role:'admin'})
+const editorToken = generateJWT({id:2,role:'editor'})
+
+describe('PUT /api/exchange-rates/:base/:quote',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).put('/api/exchange-rates/USD/EUR').send({rate:0.92})
+        expect(response.status).toBe(401)
+    })
+    it('should only allow admins',async()=>{
+        const response = await request(server).put('/api/exchange-rates/USD/EUR').set('Authorization',`Bearer ${editorToken}`).send({rate:0.92})
+        expect(response.status).toBe(403)
+    })
+    it('should display validation errors',async()=>{
+        const response = await request(server).put('/api/exchange-rates/USD/XYZ').set('Authorization',`Bearer ${token}`).send({rate:0})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details.map(detail=>detail.code)).toEqual(['INVALID_QUOTE_CURRENCY','INVALID_EXCHANGE_RATE'])
+    })
+    it('should not allow a rate between the same currency',async()=>{
+        const response = await request(server).put('/api/exchange-rates/USD/USD').set('Authorization',`Bearer ${token}`).send({rate:1})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('SAME_CURRENCIES')
+    })
+    it('should limit the decimals of the rate',async()=>{
+        const response = await request(server).put('/api/exchange-rates/USD/EUR').set('Authorization',`Bearer ${token}`).send({rate:0.123456789})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('EXCHANGE_RATE_DECIMALS')
+    })
+})
+
+describe('DELETE /api/exchange-rates/:base/:quote',()=>{
+    it('should validate the currencies',async()=>{
+        const response = await request(server).delete('/api/exchange-rates/usd/EUR').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_BASE_CURRENCY')
+    })
+})
+
+describe('GET /api/products?currency',()=>{
+    let productId:number
+
+    beforeAll(async()=>{
+        productId=(await Product.create({name:'Monitor --divisa',price:100,currency:'USD'})).id
+        await request(server).put('/api/exchange-rates/USD/EUR').set('Authorization',`Bearer ${token}`).send({rate:0.92})
+    })
+    afterAll(async()=>{
+        await ExchangeRate.destroy({where:{base:['USD','EUR'],quote:['EUR','USD']}})
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should convert the price of a product with the stored rate',async()=>{
+        const response = await request(server).get(`/api/products/${productId}?currency=EUR`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.price).toBe(100)
+        expect(response.body.data.currency).toBe('USD')
+        expect(response.body.data.converted).toEqual({currency:'EUR',price:92,rate:0.92})
+    })
+    it('should convert the prices of the product list',async()=>{
+        const response = await request(server).get('/api/products?search=--divisa&currency=EUR')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(1)
+        expect(response.body.data[0].converted).toEqual({currency:'EUR',price:92,rate:0.92})
+    })
+    it('should use the inverse rate when only the opposite pair is stored',async()=>{
+        await request(server).put('/api/exchange-rates/EUR/USD').set('Authorization',`Bearer ${token}`).send({rate:1.25})
+        await ExchangeRate.destroy({where:{base:'USD',quote:'EUR'}})
+        const response = await request(server).get(`/api/products/${productId}?currency=EUR`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.converted).toEqual({currency:'EUR',price:80,rate:0.8})
+    })
+    it('should return a 422 response when there is no rate for the currency',async()=>{
+        const response = await request(server).get(`/api/products/${productId}?currency=JPY`)
+        expect(response.status).toBe(422)
+        expect(response.body.error.reason).toBe('EXCHANGE_RATE_MISSING')
+        expect(response.body).not.toHaveProperty('data')
+    })
+})
@@ -0,0 +1,142 @@
+import request  from "supertest";
+import server from "../../server";
+import { access } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { generateJWT } from "../../utils/jwt";
+import config from "../../config/env";
+import Product from "../../models/Product.model";
+
+const token = generateJWT({id:1,role:'editor'})
+const adminToken = generateJWT({id:1,role:'admin'})
+
+const png=(width:number,height:number)=>sharp({
+    create:{width,height,channels:3,background:'#3366ff'}
+}).png().toBuffer()
+
+const stored=(key:string)=>access(path.join(config.uploadDir,key)).then(()=>true,()=>false)
+
+describe('POST /api/products/:id/images',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/products/1/images')
+        expect(response.status).toBe(401)
+    })
+    it('should require at least one image',async()=>{
+        const response = await request(server).post('/api/products/1/images').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('IMAGES_REQUIRED')
+    })
+    it('should reject files that are not JPEG, PNG or WebP',async()=>{
+        const response = await request(server).post('/api/products/1/images')
+            .set('Authorization',`Bearer ${token}`)
+            .attach('images',Buffer.from('hola'),{filename:'notas.txt',contentType:'text/plain'})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('IMAGE_FORMAT_NOT_ALLOWED')
+    })
+    it('should reject files whose content is not an image',async()=>{
+        const response = await request(server).post('/api/products/1/images')
+            .set('Authorization',`Bearer ${token}`)
+            .attach('images',Buffer.from('hola'),{filename:'foto.png',contentType:'image/png'})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_IMAGE')
+        expect(response.body.error.details[0].value).toBe('foto.png')
+    })
+    it('should reject images larger than the limit',async()=>{
+        const response = await request(server).post('/api/products/1/images')
+            .set('Authorization',`Bearer ${token}`)
+            .attach('images',Buffer.alloc(6*1024*1024),{filename:'foto.png',contentType:'image/png'})
+        expect(response.status).toBe(413)
+        expect(response.body.error.code).toBe('PAYLOAD_TOO_LARGE')
+    })
+})
+
+describe('GET /api/products/:id/images',()=>{
+    it('should check a valid ID in the URL',async()=>{
+        const response = await request(server).get('/api/products/not-valid/images')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
+    })
+    it('should return a 404 response for a non-existent product',async()=>{
+        const response = await request(server).get('/api/products/2000/images')
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_FOUND')
+    })
+})
+
+describe('PUT /api/products/:id/images/order',()=>{
+    it('should display validation errors',async()=>{
+        const response = await request(server).put('/api/products/1/images/order').set('Authorization',`Bearer ${token}`).send({ids:['a']})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_IMAGE_ID')
+    })
+})
+
+describe('DELETE /api/products/:id/images/:imageId',()=>{
+    it('should return a 404 response for a non-existent product',async()=>{
+        const response = await request(server).delete('/api/products/2000/images/1').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(404)
+    })
+})
+
+describe('Product images',()=>{
+    let productId:number
+    let images:{id:number,key:string,thumbnailKey:string}[]=[]
+
+    beforeAll(async()=>{
+        productId=(await Product.create({name:'Monitor --imagenes',price:300})).id
+    })
+    afterAll(async()=>{
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should store the images with a thumbnail and mark the first one as primary',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/images`)
+            .set('Authorization',`Bearer ${token}`)
+            .attach('images',await png(600,400),{filename:'frente.png',contentType:'image/png'})
+            .attach('images',await png(40,20),{filename:'lado.png',contentType:'image/png'})
+        expect(response.status).toBe(201)
+        expect(response.body.data).toHaveLength(2)
+        images=response.body.data
+
+        const[first,second]=response.body.data
+        expect(first.key).toMatch(new RegExp(`^products/${productId}/[\\w-]+\\.png$`))
+        expect(first.thumbnailKey).toBe(first.key.replace(/\.png$/,'-thumb.webp'))
+        expect(first.url).toBe(`/uploads/${first.key}`)
+        expect(first).toMatchObject({contentType:'image/png',width:600,height:400,position:0,isPrimary:true})
+        expect(second).toMatchObject({width:40,height:20,position:1,isPrimary:false})
+
+        expect(await stored(first.key)).toBe(true)
+        const thumbnail = await sharp(path.join(config.uploadDir,first.thumbnailKey)).metadata()
+        expect(thumbnail.format).toBe('webp')
+        expect(thumbnail.width).toBe(300)
+        expect(thumbnail.height).toBe(200)
+    })
+    it('should reorder the images',async()=>{
+        const ids=images.map(image=>image.id).reverse()
+        const response = await request(server).put(`/api/products/${productId}/images/order`).set('Authorization',`Bearer ${token}`).send({ids})
+        expect(response.status).toBe(200)
+        expect(response.body.data.map(image=>image.id)).toEqual(ids)
+        expect(response.body.data.map(image=>image.position)).toEqual([0,1])
+    })
+    it('should reject an order that does not list every image',async()=>{
+        const response = await request(server).put(`/api/products/${productId}/images/order`).set('Authorization',`Bearer ${token}`).send({ids:[images[0].id]})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('IMAGE_ORDER_MISMATCH')
+    })
+    it('should change the primary image',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/images/${images[1].id}/primary`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+
+        const list = await request(server).get(`/api/products/${productId}/images`)
+        expect(list.body.data.filter(image=>image.isPrimary).map(image=>image.id)).toEqual([images[1].id])
+    })
+    it('should remove the files when the product is purged',async()=>{
+        await request(server).delete(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
+        const response = await request(server).delete(`/api/products/${productId}/purge`).set('Authorization',`Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        for(const image of images){
+            expect(await stored(image.key)).toBe(false)
+            expect(await stored(image.thumbnailKey)).toBe(false)
+        }
+    })
+})
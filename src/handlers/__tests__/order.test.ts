@@ -0,0 +1,217 @@
+import request  from "supertest";
+import server from "../../server";
+import Order from "../../models/Order.model";
+import Product from "../../models/Product.model";
+import { generateJWT } from "../../utils/jwt";
+
+const token = generateJWT({id:1,role:'viewer'})
+const editorToken = generateJWT({id:2,role:'editor'})
+
+describe('POST /api/orders',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/orders').send({items:[{productId:1,quantity:1}]})
+        expect(response.status).toBe(401)
+    })
+    it('should require at least one item',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({items:[]})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('ORDER_ITEMS_SIZE')
+    })
+    it('should validate the product and quantity of every item',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:'mouse',quantity:0}]
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details).toHaveLength(2)
+        expect(response.body.error.details.map(detail=>detail.path)).toEqual(['items[0].productId','items[0].quantity'])
+    })
+    it('should reject repeated products',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:1,quantity:1},{productId:1,quantity:2}]
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('ORDER_DUPLICATE_PRODUCT')
+    })
+})
+
+describe('GET /api/orders/:id',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).get('/api/orders/1')
+        expect(response.status).toBe(401)
+    })
+    it('should check a valid ID in the URL',async()=>{
+        const response = await request(server).get('/api/orders/not-valid').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
+    })
+})
+
+describe('PATCH /api/orders/:id/status',()=>{
+    it('should only allow admins and editors',async()=>{
+        const response = await request(server).patch('/api/orders/1/status').set('Authorization',`Bearer ${token}`).send({status:'paid'})
+        expect(response.status).toBe(403)
+    })
+    it('should reject unknown statuses',async()=>{
+        const response = await request(server).patch('/api/orders/1/status').set('Authorization',`Bearer ${editorToken}`).send({status:'lost'})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_STATUS')
+    })
+})
+
+describe('Order status lifecycle',()=>{
+    it('should only move forward from pending to paid to shipped',()=>{
+        expect(Order.build({status:'pending'}).canTransitionTo('paid')).toBe(true)
+        expect(Order.build({status:'paid'}).canTransitionTo('shipped')).toBe(true)
+        expect(Order.build({status:'pending'}).canTransitionTo('shipped')).toBe(false)
+        expect(Order.build({status:'paid'}).canTransitionTo('pending')).toBe(false)
+    })
+    it('should not allow changes once shipped or cancelled',()=>{
+        expect(Order.build({status:'pending'}).canTransitionTo('cancelled')).toBe(true)
+        expect(Order.build({status:'paid'}).canTransitionTo('cancelled')).toBe(true)
+        expect(Order.build({status:'shipped'}).canTransitionTo('cancelled')).toBe(false)
+        expect(Order.build({status:'cancelled'}).canTransitionTo('pending')).toBe(false)
+    })
+})
+
+describe('Orders',()=>{
+    let orderId:number
+    let availableId:number
+    let unavailableId:number
+
+    beforeAll(async()=>{
+        availableId=(await Product.create({name:'Mouse --pedidos',price:25.5,stock:10})).id
+        unavailableId=(await Product.create({name:'Teclado --agotado',price:80})).id
+    })
+    afterAll(async()=>{
+        await Order.destroy({where:{userId:1}})
+        await Product.destroy({where:{id:[availableId,unavailableId]},force:true})
+    })
+
+    it('should keep the price the product had when the order was placed',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:availableId,quantity:2}]
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data.status).toBe('pending')
+        expect(response.body.data.total).toBe(51)
+        expect(response.body.data.items[0]).toMatchObject({productId:availableId,productName:'Mouse --pedidos',unitPrice:25.5,quantity:2,subtotal:51})
+        orderId=response.body.data.id
+
+        const update = await request(server).patch(`/api/products/${availableId}`).set('Authorization',`Bearer ${editorToken}`).send({price:30})
+        expect(update.status).toBe(200)
+
+        const order = await request(server).get(`/api/orders/${orderId}`).set('Authorization',`Bearer ${token}`)
+        expect(order.status).toBe(200)
+        expect(order.body.data.items[0].unitPrice).toBe(25.5)
+        expect(order.body.data.total).toBe(51)
+    })
+    it('should take the ordered units from the stock',async()=>{
+        const product = await request(server).get(`/api/products/${availableId}`)
+        expect(product.body.data.stock).toBe(8)
+
+        const movements = await request(server).get(`/api/products/${availableId}/stock`)
+        expect(movements.body.data[0]).toMatchObject({type:'decrease',quantity:2,stockAfter:8,reason:`Pedido ${orderId}`})
+    })
+    it('should reject orders larger than the stock',async()=>{
+        const orders = await Order.count()
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:availableId,quantity:1000}]
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('INSUFFICIENT_STOCK')
+        expect(await Order.count()).toBe(orders)
+
+        const product = await request(server).get(`/api/products/${availableId}`)
+        expect(product.body.data.stock).toBe(8)
+    })
+    it('should reject orders with unavailable products',async()=>{
+        const orders = await Order.count()
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:availableId,quantity:1},{productId:unavailableId,quantity:1}]
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('ORDER_PRODUCTS_UNAVAILABLE')
+        expect(await Order.count()).toBe(orders)
+    })
+    it('should cancel a pending order only once',async()=>{
+        const response = await request(server).post(`/api/orders/${orderId}/cancel`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.status).toBe('cancelled')
+
+        const again = await request(server).post(`/api/orders/${orderId}/cancel`).set('Authorization',`Bearer ${token}`)
+        expect(again.status).toBe(409)
+        expect(again.body.error.reason).toBe('ORDER_INVALID_TRANSITION')
+    })
+    it('should return the units of a cancelled order to the stock',async()=>{
+        const product = await request(server).get(`/api/products/${availableId}`)
+        expect(product.body.data.stock).toBe(10)
+
+        const movements = await request(server).get(`/api/products/${availableId}/stock`)
+        expect(movements.body.data[0]).toMatchObject({type:'increase',quantity:2,stockAfter:10,reason:`Cancelacion del pedido ${orderId}`})
+    })
+    it('should make the product unavailable when an order takes the last units',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId:availableId,quantity:10}]
+        })
+        expect(response.status).toBe(201)
+        const soldOut = await request(server).get(`/api/products/${availableId}`)
+        expect(soldOut.body.data).toMatchObject({stock:0,availability:false})
+
+        await request(server).post(`/api/orders/${response.body.data.id}/cancel`).set('Authorization',`Bearer ${token}`)
+        const restocked = await request(server).get(`/api/products/${availableId}`)
+        expect(restocked.body.data).toMatchObject({stock:10,availability:true})
+    })
+})
+
+describe('Orders by variant',()=>{
+    let productId:number
+    const variantIds:number[]=[]
+
+    beforeAll(async()=>{
+        productId=(await Product.create({name:'Playera --pedidos',price:20,stock:5})).id
+        for(const variant of [
+            {sku:'PLAYERA-PEDIDO-M',options:{talla:'M'},price:22.5},
+            {sku:'PLAYERA-PEDIDO-L',options:{talla:'L'},availability:false}
+        ]){
+            const response = await request(server).post(`/api/products/${productId}/variants`).set('Authorization',`Bearer ${editorToken}`).send(variant)
+            variantIds.push(response.body.data.id)
+        }
+    })
+    afterAll(async()=>{
+        await Order.destroy({where:{userId:1}})
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should require the variant of a product with variants',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId,quantity:1}]
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0]).toMatchObject({code:'ORDER_VARIANT_REQUIRED',path:'items[0].variantId'})
+    })
+    it('should reject a variant of another product',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId,variantId:2000,quantity:1}]
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('VARIANT_NOT_FOUND')
+    })
+    it('should reject an unavailable variant',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId,variantId:variantIds[1],quantity:1}]
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('ORDER_PRODUCTS_UNAVAILABLE')
+    })
+    it('should charge the price of the variant and take the units from the product stock',async()=>{
+        const response = await request(server).post('/api/orders').set('Authorization',`Bearer ${token}`).send({
+            items:[{productId,variantId:variantIds[0],quantity:2}]
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data.total).toBe(45)
+        expect(response.body.data.items[0]).toMatchObject({productId,variantId:variantIds[0],sku:'PLAYERA-PEDIDO-M',unitPrice:22.5,subtotal:45})
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.stock).toBe(3)
+    })
+})
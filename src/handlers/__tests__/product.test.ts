@@ -1,51 +1,108 @@
 import request  from "supertest";
 import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
 
 
+const token = generateJWT({id:1,role:'admin'})
+let productId:number
+
 describe('Post /api/products',()=>{
+    it('should require an authentication token', async()=>{
+        const response = await request(server).post('/api/products').send({
+            name:'Play station 5 ---prueba',
+            price:500
+        })
+        expect(response.status).toBe(401)
+        expect(response.body.error.code).toBe('UNAUTHORIZED')
+    })
+    it('should not allow viewers to create products', async()=>{
+        const response = await request(server).post('/api/products')
+            .set('Authorization',`Bearer ${generateJWT({id:2,role:'viewer'})}`)
+            .send({
+                name:'Play station 5 ---prueba',
+                price:500
+            })
+        expect(response.status).toBe(403)
+        expect(response.body.error.code).toBe('FORBIDDEN')
+    })
     it('should display validation errors', async()=>{
-        const response = await request(server).post('/api/products').send()
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send()
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toHaveLength(4)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(4)
 
         expect(response.status).not.toEqual(404)
-        expect(response.body.errores).not.toHaveLength(2)
+        expect(response.body.error.details).not.toHaveLength(2)
     })
     it('should validate that the price is greater than 0', async()=>{
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
             name:'Play station 5 ---prueba',
             price:0
         })
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toHaveLength(1)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(1)
 
         expect(response.status).not.toEqual(404)
-        expect(response.body.errores).not.toHaveLength(2)
+        expect(response.body.error.details).not.toHaveLength(2)
     })
     it('should validate that the price is a number and greater than 0', async()=>{
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
             name:'Play station 5 ---prueba',
             price:"hola"
         })
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toHaveLength(2)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(2)
 
         expect(response.status).not.toEqual(404)
-        expect(response.body.errores).not.toHaveLength(4)
+        expect(response.body.error.details).not.toHaveLength(4)
+    })
+    it('should validate the currency and its decimals', async()=>{
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
+            name:'Play station 5 ---prueba',
+            price:10.5,
+            currency:'JPY'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('PRICE_DECIMALS')
+
+        const invalid = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
+            name:'Play station 5 ---prueba',
+            price:500,
+            currency:'PESOS'
+        })
+        expect(invalid.status).toBe(400)
+        expect(invalid.body.error.details[0].code).toBe('INVALID_CURRENCY')
+    })
+    it('should translate the errors to the requested language', async()=>{
+        const english = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`)
+            .set('Accept-Language','en-US,en;q=0.9')
+            .send({name:'Play station 5 ---prueba',price:0})
+        expect(english.status).toBe(400)
+        expect(english.headers['content-language']).toBe('en')
+        expect(english.body.error.details[0].code).toBe('INVALID_PRICE')
+        expect(english.body.error.details[0].msg).toBe('Invalid price')
+
+        const spanish = await request(server).post('/api/products?lang=es').set('Authorization',`Bearer ${token}`)
+            .set('Accept-Language','en')
+            .send({name:'Play station 5 ---prueba',price:0})
+        expect(spanish.body.error.details[0].code).toBe('INVALID_PRICE')
+        expect(spanish.body.error.details[0].msg).toBe('Precio no valido')
     })
     it('should create a new product',async()=>{
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
             name:'Mouse',
-            price:50
+            price:50,
+            stock:10
         })
         expect(response.status).toBe(201)
         expect(response.body).toHaveProperty('data')
+        productId=response.body.data.id
         expect(response.status).not.toBe(404)
         expect(response.status).not.toBe(200)
-        expect(response.body).not.toHaveProperty('errors')
+        expect(response.body).not.toHaveProperty('error')
     })
 })
 
@@ -60,7 +117,65 @@ describe('GET /Api/products',()=>{
         expect(response.headers['content-type']).toMatch(/json/)
         expect(response.body).toHaveProperty('data')
         expect(response.body.data).toHaveLength(1)
-        expect(response.body).not.toHaveProperty('errores')
+        expect(response.body).not.toHaveProperty('error')
+    })
+    it('should return pagination metadata', async()=>{
+        const response = await request(server).get('/api/products?page=1&limit=5&sort=name')
+        expect(response.status).toBe(200)
+        expect(response.body).toHaveProperty('meta')
+        expect(response.body.meta.total).toBe(1)
+        expect(response.body.meta.page).toBe(1)
+        expect(response.body.meta.limit).toBe(5)
+        expect(response.body.meta.totalPages).toBe(1)
+    })
+    it('should respond with an error envelope when the database fails', async()=>{
+        jest.spyOn(Product,'findAndCountAll').mockRejectedValueOnce(new Error('error de la base de datos'))
+        const response = await request(server).get('/api/products')
+        expect(response.status).toBe(500)
+        expect(response.body.error.code).toBe('INTERNAL_ERROR')
+        expect(response.body).not.toHaveProperty('data')
+    })
+    it('should validate the query parameters', async()=>{
+        const response = await request(server).get('/api/products?page=0&limit=500&sort=password')
+        expect(response.status).toBe(400)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(3)
+        expect(response.body).not.toHaveProperty('data')
+    })
+})
+
+describe('GET /api/products/search',()=>{
+    it('should require a search term',async()=>{
+        const response = await request(server).get('/api/products/search?q=%20!%20')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('SEARCH_EMPTY')
+    })
+    it('should find products by the beginning of a word ignoring accents',async()=>{
+        const response = await request(server).get('/api/products/search?q=móu')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(1)
+        expect(response.body.data[0].name).toBe('Mouse')
+        expect(response.body.data[0]).toHaveProperty('rank')
+        expect(response.body.meta.total).toBe(1)
+    })
+    it('should validate the filters and the order',async()=>{
+        const response = await request(server).get('/api/products/search?q=mouse&minPrice=abc&sort=password')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details.map(detail=>detail.code)).toEqual(['INVALID_MIN_PRICE','INVALID_SORT'])
+    })
+    it('should apply the price filters and the order',async()=>{
+        const response = await request(server).get('/api/products/search?q=mouse&minPrice=100&sort=-price')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(0)
+
+        const sorted = await request(server).get('/api/products/search?q=mouse&maxPrice=100&sort=name')
+        expect(sorted.status).toBe(200)
+        expect(sorted.body.data).toHaveLength(1)
+    })
+    it('should return an empty page when nothing matches',async()=>{
+        const response = await request(server).get('/api/products/search?q=teclado')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(0)
     })
 })
 
@@ -75,52 +190,60 @@ describe('GET /api/products',()=>{
     it('should check a valid ID in the URL',async()=>{
         const response = await request(server).get('/api/products/not-valid-url')
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toHaveLength(1)
-        expect(response.body.errores[0].msg).toBe('ID no valido')
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(1)
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
     })
     it('should check a valid ID in the URL',async()=>{
-        const response = await request(server).get('/api/products/1')
+        const response = await request(server).get(`/api/products/${productId}`)
         expect(response.status).toBe(200)
         expect(response.body).toHaveProperty('data')
         
     })
+    it('should return an ETag and honor If-None-Match',async()=>{
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.status).toBe(200)
+        expect(response.headers['etag']).toBe(`"${productId}-${response.body.data.version}"`)
+
+        const cached = await request(server).get(`/api/products/${productId}`).set('If-None-Match',response.headers['etag'])
+        expect(cached.status).toBe(304)
+    })
 })
 
 describe('PUT /api/products/:id',()=>{
     it('should check a valid ID in the URL',async()=>{
-        const response = await request(server).put('/api/products/not-valid-url').send({
+        const response = await request(server).put('/api/products/not-valid-url').set('Authorization',`Bearer ${token}`).send({
             name: "Monitor Curvo --actualizado",
             price: 300,
             availability: true
         })
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toHaveLength(1)
-        expect(response.body.errores[0].msg).toBe('ID no valido')
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(1)
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
     })
     it('should display validation error message when updating a products',async()=>{
-        const response = await request(server).put('/api/products/1').send({})
+        const response = await request(server).put(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({})
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toBeTruthy()
-        expect(response.body.errores).toHaveLength(5)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toBeTruthy()
+        expect(response.body.error.details).toHaveLength(5)
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
 
     })
     it('should validate that the price is greater than 0',async()=>{
-        const response = await request(server).put('/api/products/1').send({
+        const response = await request(server).put(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({
             name: "Monitor Curvo --actualizado",
             price: 0,
             availability: false
           })
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores).toBeTruthy()
-        expect(response.body.errores).toHaveLength(1)
-        expect(response.body.errores[0].msg).toBe('Precio no valido')
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toBeTruthy()
+        expect(response.body.error.details).toHaveLength(1)
+        expect(response.body.error.details[0].code).toBe('INVALID_PRICE')
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
@@ -130,23 +253,45 @@ describe('PUT /api/products/:id',()=>{
     })
     it('should return a 404 response for a non-existent product',async()=>{
         const productID = 2000
-        const response = await request(server).put(`/api/products/${productID}`).send({
+        const response = await request(server).put(`/api/products/${productID}`).set('Authorization',`Bearer ${token}`).send({
             name: "Monitor Curvo --actualizado",
             price: 300,
             availability: true
           })
         expect(response.status).toBe(404)
-        expect(response.body.error).toBe('Producto no encontrado')
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_FOUND')
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
 
 
 
+    })
+    it('should reject unknown fields',async()=>{
+        const response = await request(server).put(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({
+            id: 20,
+            name: "Monitor Curvo --actualizado",
+            price: 300,
+            availability: true
+          })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('UNKNOWN_FIELDS')
+    })
+    it('should return a 412 response for a stale If-Match header',async()=>{
+        const response = await request(server).put(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
+            .set('If-Match',`"${productId}-999"`)
+            .send({
+                name: "Monitor Curvo --actualizado",
+                price: 300,
+                availability: true
+            })
+        expect(response.status).toBe(412)
+        expect(response.body.error.code).toBe('PRECONDITION_FAILED')
+        expect(response.body).not.toHaveProperty('data')
     })
     it('should update an existing product with valid data',async()=>{
         
-        const response = await request(server).put(`/api/products/1`).send({
+        const response = await request(server).put(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({
             name: "Monitor Curvo --actualizado",
             price: 300,
             availability: true
@@ -156,24 +301,24 @@ describe('PUT /api/products/:id',()=>{
         expect(response.body).toHaveProperty('data')
 
         expect(response.status).not.toBe(404)
-        expect(response.body).not.toHaveProperty('errores')
+        expect(response.body).not.toHaveProperty('error')
 
 
 
     })
 })
 
-describe('PATCH /api/products/:id',()=>{
+describe('POST /api/products/:id/availability/toggle',()=>{
     it('should return a 404 response for a non-existing product',async()=>{
         const productId = 2000
-        const response  = await request(server).patch(`/api/products/${productId}`)
+        const response  = await request(server).post(`/api/products/${productId}/availability/toggle`).set('Authorization',`Bearer ${token}`)
         expect(response.status).toBe(404)
-        expect(response.body.error).toBe('Producto no encontrado')
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_FOUND')
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
     })
     it('should update the product availability',async()=>{
-        const response = await request(server).patch(`/api/products/1`)
+        const response = await request(server).post(`/api/products/${productId}/availability/toggle`).set('Authorization',`Bearer ${token}`)
         expect(response.status).toBe(200)
         expect(response.body).toHaveProperty('data')
         expect(response.body.data.availability).toBe(false)
@@ -185,25 +330,149 @@ describe('PATCH /api/products/:id',()=>{
 })
 
 
+describe('PATCH /api/products/:id',()=>{
+    it('should reject unknown fields',async()=>{
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({
+            id:20,
+            createdAt:'2024-01-01'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details).toHaveLength(1)
+        expect(response.body.error.details[0].fields.map(field=>field.path)).toEqual(['id','createdAt'])
+    })
+    it('should require at least one field',async()=>{
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('EMPTY_UPDATE')
+    })
+    it('should validate each field sent',async()=>{
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({
+            name:null,
+            price:0
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details).toHaveLength(2)
+    })
+    it('should only update the fields sent',async()=>{
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
+            .set('Content-Type','application/merge-patch+json')
+            .send(JSON.stringify({price:350}))
+        expect(response.status).toBe(200)
+        expect(response.body.data.price).toBe(350)
+        expect(response.body.data.name).toBe('Monitor Curvo --actualizado')
+        expect(response.body.data.availability).toBe(false)
+    })
+})
+
+describe('GET /api/products/:id/history',()=>{
+    it('should return every change made to the product',async()=>{
+        const response = await request(server).get(`/api/products/${productId}/history`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(4)
+        expect(response.body.data.map(entry=>entry.action)).toEqual(['update','availability','update','create'])
+        expect(response.body.data[1].oldValues).toEqual({availability:true})
+        expect(response.body.data[1].newValues).toEqual({availability:false})
+    })
+    it('should return the price history',async()=>{
+        const response = await request(server).get(`/api/products/${productId}/history?field=price`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(3)
+        expect(response.body.data.map(entry=>entry.newValues.price)).toEqual([350,300,50])
+    })
+    it('should filter the history by date range',async()=>{
+        const response = await request(server).get(`/api/products/${productId}/history?to=2000-01-01`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(0)
+    })
+    it('should validate the date range',async()=>{
+        const response = await request(server).get(`/api/products/${productId}/history?from=ayer`)
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_FROM_DATE')
+    })
+})
+
 describe('DELETE /api/products:id',()=>{
     it('should check a valid ID',async()=>{
-        const response = await request(server).delete('/api/products/not-valid')
+        const response = await request(server).delete('/api/products/not-valid').set('Authorization',`Bearer ${token}`)
         expect(response.status).toBe(400)
-        expect(response.body).toHaveProperty('errores')
-        expect(response.body.errores[0].msg).toBe('ID no valido')
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
     })
     it('should return a 404 response for a non-existent product',async()=>{
         const productId=2000
-        const response = await request(server).delete(`/api/products/${productId}`)
+        const response = await request(server).delete(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
         expect(response.status).toBe(404)
-        expect(response.body.error).toBe('Producto no encontrado')
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_FOUND')
         expect(response.status).not.toBe(200)
     })
     it('should delete a product',async()=>{
-        const response = await request(server).delete('/api/products/1')
+        const response = await request(server).delete(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
         expect(response.status).toBe(200)
         expect(response.body.data).toBe("Producto eliminado")
         expect(response.status).not.toBe(404)
         expect(response.status).not.toBe(400)
     })
-})
\ No newline at end of file
+})
+
+describe('Trash /api/products',()=>{
+    it('should not return deleted products in the listing',async()=>{
+        const response = await request(server).get('/api/products')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(0)
+    })
+    it('should list the deleted products in the trash',async()=>{
+        const response = await request(server).get('/api/products/trash').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(1)
+        expect(response.body.data[0].deletedAt).toBeTruthy()
+    })
+    it('should restore a deleted product',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/restore`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.deletedAt).toBeNull()
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.status).toBe(200)
+    })
+    it('should return a 404 response when restoring a product that is not in the trash',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/restore`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_IN_TRASH')
+    })
+    it('should only allow admins to purge products',async()=>{
+        await request(server).delete(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`)
+        const response = await request(server).delete(`/api/products/${productId}/purge`)
+            .set('Authorization',`Bearer ${generateJWT({id:2,role:'editor'})}`)
+        expect(response.status).toBe(403)
+    })
+    it('should permanently delete a product from the trash',async()=>{
+        const response = await request(server).delete(`/api/products/${productId}/purge`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toBe('Producto eliminado permanentemente')
+
+        const restore = await request(server).post(`/api/products/${productId}/restore`).set('Authorization',`Bearer ${token}`)
+        expect(restore.status).toBe(404)
+    })
+})
+
+describe('GET /api/products pagination',()=>{
+    let ids:number[]
+
+    beforeAll(async()=>{
+        const products = await Product.bulkCreate(['Cable A','Cable B','Cable C'].map(name=>({name,price:15})))
+        ids=products.map(product=>product.id)
+    })
+    afterAll(async()=>{
+        await Product.destroy({where:{id:ids},force:true})
+    })
+
+    it('should not repeat or skip products with the same price between pages',async()=>{
+        const pages=[]
+        for(const page of [1,2,3]){
+            const response = await request(server).get(`/api/products?sort=-price&limit=1&page=${page}`)
+            expect(response.status).toBe(200)
+            pages.push(...response.body.data.map(product=>product.id))
+        }
+        expect(pages).toEqual(ids)
+    })
+})
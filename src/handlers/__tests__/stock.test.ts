@@ -0,0 +1,173 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+
+const token = generateJWT({id:1,role:'editor'})
+
+describe('POST /api/products/:id/stock',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/products/1/stock').send({
+            type:'increase',
+            quantity:10,
+            reason:'Compra a proveedor'
+        })
+        expect(response.status).toBe(401)
+    })
+    it('should display validation errors',async()=>{
+        const response = await request(server).post('/api/products/1/stock').set('Authorization',`Bearer ${token}`).send({
+            type:'transfer',
+            quantity:0
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+        expect(response.body.error.details).toHaveLength(3)
+    })
+    it('should return a 404 response for a non-existent product',async()=>{
+        const response = await request(server).post('/api/products/2000/stock').set('Authorization',`Bearer ${token}`).send({
+            type:'decrease',
+            quantity:1,
+            reason:'Venta'
+        })
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('PRODUCT_NOT_FOUND')
+    })
+})
+
+describe('GET /api/products/:id/stock',()=>{
+    it('should check a valid ID in the URL',async()=>{
+        const response = await request(server).get('/api/products/not-valid/stock')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_ID')
+    })
+    it('should return a 404 response for a non-existent product',async()=>{
+        const response = await request(server).get('/api/products/2000/stock')
+        expect(response.status).toBe(404)
+        expect(response.body).not.toHaveProperty('data')
+    })
+})
+
+describe('Stock movements',()=>{
+    let productId:number
+
+    beforeAll(async()=>{
+        productId=(await Product.create({name:'Teclado --stock',price:80})).id
+    })
+    afterAll(async()=>{
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should create the product unavailable without stock',async()=>{
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.stock).toBe(0)
+        expect(response.body.data.availability).toBe(false)
+    })
+    it('should increase the stock and make the product available',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/stock`).set('Authorization',`Bearer ${token}`).send({
+            type:'increase',
+            quantity:5,
+            reason:'Compra a proveedor'
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data.type).toBe('increase')
+        expect(response.body.data.stockAfter).toBe(5)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.stock).toBe(5)
+        expect(product.body.data.availability).toBe(true)
+    })
+    it('should make the product unavailable when the stock reaches zero',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/stock`).set('Authorization',`Bearer ${token}`).send({
+            type:'decrease',
+            quantity:5,
+            reason:'Venta'
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data.stockAfter).toBe(0)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.stock).toBe(0)
+        expect(product.body.data.availability).toBe(false)
+    })
+    it('should reject a decrease larger than the stock',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/stock`).set('Authorization',`Bearer ${token}`).send({
+            type:'decrease',
+            quantity:1,
+            reason:'Venta'
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('INSUFFICIENT_STOCK')
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.stock).toBe(0)
+    })
+    it('should list the movements newest first',async()=>{
+        const response = await request(server).get(`/api/products/${productId}/stock`)
+        expect(response.status).toBe(200)
+        expect(response.body.meta.stock).toBe(0)
+        expect(response.body.meta.total).toBe(2)
+        expect(response.body.data.map(movement=>movement.type)).toEqual(['decrease','increase'])
+    })
+    it('should not make a product without stock available',async()=>{
+        const patch = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({availability:true})
+        expect(patch.status).toBe(409)
+        expect(patch.body.error.reason).toBe('AVAILABILITY_REQUIRES_STOCK')
+
+        const toggle = await request(server).post(`/api/products/${productId}/availability/toggle`).set('Authorization',`Bearer ${token}`)
+        expect(toggle.status).toBe(409)
+        expect(toggle.body.error.reason).toBe('AVAILABILITY_REQUIRES_STOCK')
+
+        const bulk = await request(server).post('/api/products/bulk').set('Authorization',`Bearer ${token}`).send({
+            operations:[{op:'availability',id:productId,availability:true}]
+        })
+        expect(bulk.status).toBe(409)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.availability).toBe(false)
+    })
+})
+
+describe('Initial stock',()=>{
+    let productId:number
+
+    afterAll(async()=>{
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should not create an available product without stock',async()=>{
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
+            name:'Raton --stock inicial',
+            price:20,
+            availability:true
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('AVAILABILITY_REQUIRES_STOCK')
+    })
+    it('should record the initial stock as a movement',async()=>{
+        const response = await request(server).post('/api/products').set('Authorization',`Bearer ${token}`).send({
+            name:'Raton --stock inicial',
+            price:20,
+            stock:5,
+            availability:false
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({stock:5,availability:false})
+        productId=response.body.data.id
+
+        const movements = await request(server).get(`/api/products/${productId}/stock`)
+        expect(movements.body.data).toHaveLength(1)
+        expect(movements.body.data[0]).toMatchObject({type:'increase',quantity:5,stockAfter:5,userId:1})
+    })
+    it('should keep a product withdrawn from sale unavailable when its stock changes',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/stock`).set('Authorization',`Bearer ${token}`).send({
+            type:'increase',
+            quantity:3,
+            reason:'Compra a proveedor'
+        })
+        expect(response.status).toBe(201)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data).toMatchObject({stock:8,availability:false})
+    })
+})
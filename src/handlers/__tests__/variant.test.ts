@@ -0,0 +1,166 @@
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+
+const token = generateJWT({id:1,role:'admin'})
+
+describe('POST /api/products/:id/variants',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/products/1/variants').send({sku:'PLAYERA-M',options:{talla:'M'}})
+        expect(response.status).toBe(401)
+    })
+    it('should not allow viewers to create variants',async()=>{
+        const response = await request(server).post('/api/products/1/variants')
+            .set('Authorization',`Bearer ${generateJWT({id:2,role:'viewer'})}`)
+            .send({sku:'PLAYERA-M',options:{talla:'M'}})
+        expect(response.status).toBe(403)
+    })
+    it('should display validation errors',async()=>{
+        const response = await request(server).post('/api/products/1/variants').set('Authorization',`Bearer ${token}`).send({
+            sku:'PLAYERA M',
+            options:{talla:10},
+            price:0,
+            availability:'si'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details.map(detail=>detail.code)).toEqual([
+            'SKU_FORMAT',
+            'INVALID_VARIANT_OPTIONS',
+            'INVALID_PRICE',
+            'INVALID_AVAILABILITY'
+        ])
+    })
+    it('should reject unknown fields',async()=>{
+        const response = await request(server).post('/api/products/1/variants').set('Authorization',`Bearer ${token}`).send({
+            sku:'PLAYERA M',
+            options:{talla:'M',color:'Negro'},
+            stock:10
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details.map(detail=>detail.code)).toEqual([
+            'SKU_FORMAT',
+            'UNKNOWN_FIELDS'
+        ])
+    })
+})
+
+describe('PATCH /api/products/:id/variants/:variantId',()=>{
+    it('should check a valid ID in the URL',async()=>{
+        const response = await request(server).patch('/api/products/1/variants/talla-m').set('Authorization',`Bearer ${token}`).send({availability:false})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_VARIANT_ID')
+    })
+    it('should require at least one field',async()=>{
+        const response = await request(server).patch('/api/products/1/variants/1').set('Authorization',`Bearer ${token}`).send({})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('EMPTY_UPDATE')
+    })
+})
+
+describe('GET /api/products?include',()=>{
+    it('should validate the related records',async()=>{
+        const response = await request(server).get('/api/products?include=reviews')
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_INCLUDE')
+    })
+})
+
+describe('Product variants',()=>{
+    let productId:number
+    const variantIds:number[]=[]
+    const productAvailability=async()=>{
+        const response = await request(server).get(`/api/products/${productId}`)
+        return response.body.data.availability
+    }
+
+    beforeAll(async()=>{
+        productId=(await Product.create({name:'Sudadera --variantes',price:30})).id
+    })
+    afterAll(async()=>{
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should create the variants and make the product available',async()=>{
+        expect(await productAvailability()).toBe(false)
+        for(const variant of [
+            {sku:'SUDADERA-VAR-M',options:{talla:'M',color:'Gris'}},
+            {sku:'SUDADERA-VAR-L',options:{talla:'L',color:'Gris'},price:32.5}
+        ]){
+            const response = await request(server).post(`/api/products/${productId}/variants`).set('Authorization',`Bearer ${token}`).send(variant)
+            expect(response.status).toBe(201)
+            expect(response.body.data).toMatchObject({...variant,productId:productId,availability:true})
+            variantIds.push(response.body.data.id)
+        }
+        expect(await productAvailability()).toBe(true)
+    })
+    it('should not allow a duplicated SKU',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/variants`).set('Authorization',`Bearer ${token}`).send({
+            sku:'SUDADERA-VAR-M',
+            options:{talla:'XL',color:'Gris'}
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('SKU_TAKEN')
+
+        const update = await request(server).patch(`/api/products/${productId}/variants/${variantIds[1]}`).set('Authorization',`Bearer ${token}`).send({sku:'SUDADERA-VAR-M'})
+        expect(update.status).toBe(409)
+        expect(update.body.error.reason).toBe('SKU_TAKEN')
+    })
+    it('should not allow the same options in a different order',async()=>{
+        const response = await request(server).post(`/api/products/${productId}/variants`).set('Authorization',`Bearer ${token}`).send({
+            sku:'SUDADERA-VAR-M2',
+            options:{color:'Gris',talla:'M'}
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('VARIANT_OPTIONS_TAKEN')
+    })
+    it('should keep the product available while any variant is available',async()=>{
+        const first = await request(server).patch(`/api/products/${productId}/variants/${variantIds[0]}`).set('Authorization',`Bearer ${token}`).send({availability:false})
+        expect(first.status).toBe(200)
+        expect(first.body.data.availability).toBe(false)
+        expect(await productAvailability()).toBe(true)
+
+        const second = await request(server).patch(`/api/products/${productId}/variants/${variantIds[1]}`).set('Authorization',`Bearer ${token}`).send({availability:false})
+        expect(second.status).toBe(200)
+        expect(await productAvailability()).toBe(false)
+
+        await request(server).patch(`/api/products/${productId}/variants/${variantIds[0]}`).set('Authorization',`Bearer ${token}`).send({availability:true})
+        expect(await productAvailability()).toBe(true)
+    })
+    it('should not allow changing the availability of the product directly',async()=>{
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization',`Bearer ${token}`).send({availability:false})
+        expect(response.status).toBe(409)
+        expect(response.body.error.reason).toBe('VARIANT_AVAILABILITY_LOCKED')
+    })
+    it('should include the variants only when requested',async()=>{
+        const response = await request(server).get(`/api/products/${productId}?include=variants`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.variants.map(variant=>[variant.sku,variant.availability])).toEqual([
+            ['SUDADERA-VAR-M',true],
+            ['SUDADERA-VAR-L',false]
+        ])
+        expect(response.body.data.variants[1].price).toBe(32.5)
+
+        const withoutVariants = await request(server).get(`/api/products/${productId}`)
+        expect(withoutVariants.body.data).not.toHaveProperty('variants')
+    })
+    it('should return a 404 response for a non-existent variant',async()=>{
+        const response = await request(server).delete(`/api/products/${productId}/variants/2000`).set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(404)
+        expect(response.body.error.reason).toBe('VARIANT_NOT_FOUND')
+    })
+    it('should derive the availability from the stock again after deleting the last variant',async()=>{
+        const unavailable = await request(server).delete(`/api/products/${productId}/variants/${variantIds[1]}`).set('Authorization',`Bearer ${token}`)
+        expect(unavailable.status).toBe(200)
+        expect(unavailable.body.data).toBe('Variante eliminada')
+        expect(await productAvailability()).toBe(true)
+
+        // El producto no tiene stock propio
+        const last = await request(server).delete(`/api/products/${productId}/variants/${variantIds[0]}`).set('Authorization',`Bearer ${token}`)
+        expect(last.status).toBe(200)
+        expect(await productAvailability()).toBe(false)
+
+        const variants = await request(server).get(`/api/products/${productId}/variants`)
+        expect(variants.body.data).toHaveLength(0)
+    })
+})
@@ -0,0 +1,143 @@
+import http from "http";
+import { AddressInfo } from "net";
+import request  from "supertest";
+import server from "../../server";
+import { generateJWT } from "../../utils/jwt";
+import Product from "../../models/Product.model";
+import WebhookDelivery from "../../models/WebhookDelivery.model";
+import WebhookSubscription from "../../models/WebhookSubscription.model";
+import { attemptDelivery } from "../../webhooks/dispatcher";
+import { signPayload } from "../../webhooks/sender";
+
+const token = generateJWT({id:1,role:'admin'})
+const editorToken = generateJWT({id:2,role:'editor'})
+
+type Received={
+    headers:http.IncomingHttpHeaders
+    body:string
+}
+
+// Sustituto local del sistema que recibe los webhooks
+const startReceiver=()=>new Promise<{url:string,received:Received[],close:()=>Promise<void>}>(resolve=>{
+    const received:Received[]=[]
+    const receiver=http.createServer((req,res)=>{
+        let body=''
+        req.on('data',chunk=>body+=chunk)
+        req.on('end',()=>{
+            received.push({headers:req.headers,body})
+            res.writeHead(204).end()
+        })
+    })
+    receiver.listen(0,'127.0.0.1',()=>{
+        const{port}=receiver.address() as AddressInfo
+        resolve({
+            url:`http://127.0.0.1:${port}/hooks`,
+            received,
+            close:()=>new Promise(done=>{
+                receiver.closeAllConnections()
+                receiver.close(()=>done())
+            })
+        })
+    })
+})
+
+const waitFor=async(check:()=>Promise<boolean>,timeout=2000)=>{
+    const limit=Date.now()+timeout
+    while(!(await check())){
+        if(Date.now()>limit){
+            throw new Error('Tiempo de espera agotado')
+        }
+        await new Promise(resolve=>setTimeout(resolve,20))
+    }
+}
+
+describe('POST /api/webhooks',()=>{
+    it('should require an authentication token',async()=>{
+        const response = await request(server).post('/api/webhooks').send({url:'https://erp.tienda.com/hooks',events:['product.created']})
+        expect(response.status).toBe(401)
+    })
+    it('should only allow admins',async()=>{
+        const response = await request(server).post('/api/webhooks').set('Authorization',`Bearer ${editorToken}`).send({url:'https://erp.tienda.com/hooks',events:['product.created']})
+        expect(response.status).toBe(403)
+    })
+    it('should display validation errors',async()=>{
+        const response = await request(server).post('/api/webhooks').set('Authorization',`Bearer ${token}`).send({
+            url:'ftp://erp.tienda.com',
+            events:['product.created','order.created']
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details.map(detail=>detail.code)).toEqual(['INVALID_URL','INVALID_WEBHOOK_EVENT'])
+    })
+    it('should not accept a secret from the client',async()=>{
+        const response = await request(server).post('/api/webhooks').set('Authorization',`Bearer ${token}`).send({
+            url:'http://localhost:4000/hooks',
+            events:['product.created'],
+            secret:'123'
+        })
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('UNKNOWN_FIELDS')
+    })
+})
+
+describe('PATCH /api/webhooks/:id',()=>{
+    it('should require at least one field',async()=>{
+        const response = await request(server).patch('/api/webhooks/1').set('Authorization',`Bearer ${token}`).send({})
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('EMPTY_UPDATE')
+    })
+})
+
+describe('GET /api/webhooks/:id/deliveries',()=>{
+    it('should validate the filters',async()=>{
+        const response = await request(server).get('/api/webhooks/1/deliveries?status=lost').set('Authorization',`Bearer ${token}`)
+        expect(response.status).toBe(400)
+        expect(response.body.error.details[0].code).toBe('INVALID_STATUS')
+    })
+})
+
+describe('Webhook deliveries',()=>{
+    let receiver:Awaited<ReturnType<typeof startReceiver>>
+    let productId:number
+
+    beforeAll(async()=>{
+        receiver=await startReceiver()
+    })
+    afterAll(async()=>{
+        await receiver.close()
+        await WebhookSubscription.destroy({where:{url:receiver.url}})
+        await Product.destroy({where:{id:productId},force:true})
+    })
+
+    it('should deliver a signed notification when a product is created',async()=>{
+        const subscription = await request(server).post('/api/webhooks').set('Authorization',`Bearer ${token}`).send({
+            url:receiver.url,
+            events:['product.created']
+        })
+        expect(subscription.status).toBe(201)
+        const{id:subscriptionId,secret}=subscription.body.data
+        expect(secret).toBeTruthy()
+
+        productId=(await Product.create({name:'Audifonos --webhook',price:120})).id
+        const delivery = await WebhookDelivery.findOne({where:{subscriptionId}})
+        expect(delivery.event).toBe('product.created')
+
+        // La entrega tambien se programa sola; la reserva evita que se envie dos veces
+        await attemptDelivery(delivery.id)
+        await waitFor(async()=>(await delivery.reload()).status==='succeeded')
+        expect(delivery.attempts).toBe(1)
+        expect(delivery.responseStatus).toBe(204)
+
+        expect(receiver.received).toHaveLength(1)
+        const{headers,body}=receiver.received[0]
+        const payload=JSON.parse(body)
+        expect(payload.event).toBe('product.created')
+        expect(payload.data).toMatchObject({id:productId,name:'Audifonos --webhook'})
+        expect(headers['x-webhook-delivery']).toBe(String(delivery.id))
+        const[,timestamp,signature]=(headers['x-webhook-signature'] as string).match(/^t=(\d+),v1=([a-f0-9]{64})$/)
+        expect(signature).toBe(signPayload(secret,Number(timestamp),body))
+
+        const deliveries = await request(server).get(`/api/webhooks/${subscriptionId}/deliveries`).set('Authorization',`Bearer ${token}`)
+        expect(deliveries.status).toBe(200)
+        expect(deliveries.body.data[0].status).toBe('succeeded')
+    })
+})
@@ -0,0 +1,27 @@
+import { Request,Response } from "express"
+import User from "../models/User.model"
+import { UnauthorizedError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { generateJWT } from "../utils/jwt"
+
+export const register=asyncHandler(async(req:Request,res:Response)=>{
+    const{name,email,password}=req.body
+    // Los administradores se crean con el seed o con `ts-node ./src/data create-admin`
+    const user = await User.create({name,email,password,role:'viewer'})
+    res.status(201).json({
+        data:user,
+        token:generateJWT({id:user.id,role:user.role})
+    })
+})
+
+export const login=asyncHandler(async(req:Request,res:Response)=>{
+    const{email,password}=req.body
+    const user = await User.scope('withPassword').findOne({where:{email}})
+    if(!user || !(await user.checkPassword(password))){
+        throw new UnauthorizedError('INVALID_CREDENTIALS')
+    }
+    res.json({
+        data:user,
+        token:generateJWT({id:user.id,role:user.role})
+    })
+})
@@ -0,0 +1,171 @@
+import { Request,Response } from "express"
+import { body, ContextRunner } from "express-validator"
+import { Transaction } from "sequelize"
+import db from "../config/db"
+import Product from "../models/Product.model"
+import { AppError, ConflictError, NotFoundError, ValidationError } from "../errors"
+import { asyncHandler, toAppError } from "../middleware"
+import { currentLocale, message } from "../i18n"
+import { createProductRules, nonEmptyBody, onlyKnownFields, patchProductRules, productAvailabilityRule, runRules } from "../validators/product"
+import { buildProductFilters } from "./product"
+import { roundAmount } from "../utils/money"
+import { checkAvailabilityChange } from "./stock"
+
+export const BULK_OPERATIONS=['create','update','delete','availability'] as const
+export type BulkOperationType=typeof BULK_OPERATIONS[number]
+export const BULK_MODES=['atomic','partial'] as const
+export const MAX_BULK_OPERATIONS=500
+
+type BulkOperation={
+    op:BulkOperationType
+    id?:number
+    values:Record<string,unknown>
+}
+
+type BulkResult={
+    index:number
+    op:BulkOperationType
+    status:number
+    data?:unknown
+    error?:{code:string,reason:string,message:string}
+}
+
+const operationRules=[
+    body('op').isIn(BULK_OPERATIONS).withMessage('INVALID_BULK_OPERATION'),
+    body('id').if(body('op').not().equals('create')).isInt().withMessage('INVALID_ID').toInt()
+]
+
+// Cada operacion usa las mismas reglas que su ruta individual
+const DATA_RULES:Record<BulkOperationType,ContextRunner[]>={
+    create:[...createProductRules,onlyKnownFields],
+    update:[...patchProductRules,onlyKnownFields,nonEmptyBody],
+    availability:[productAvailabilityRule,onlyKnownFields],
+    delete:[]
+}
+
+const validateOperation=async(operation:Record<string,unknown>)=>{
+    const result=await runRules(operationRules,operation)
+    if(result.errors.length){
+        return result
+    }
+    const{op,id}=result.values as {op:BulkOperationType,id?:number}
+    const data=op==='availability' ? {availability:operation.availability} : operation.data ?? {}
+    const dataResult=await runRules(DATA_RULES[op],data,{id})
+    return dataResult.errors.length
+        ? dataResult
+        : {values:{op,id,values:dataResult.values},errors:[]}
+}
+
+const applyOperation=async({op,id,values}:BulkOperation,transaction:Transaction)=>{
+    if(op==='create'){
+        return {status:201,data:await Product.create(values,{transaction})}
+    }
+    const product = await Product.findByPk(id,{transaction,lock:transaction.LOCK.UPDATE})
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    if(op==='delete'){
+        await product.destroy({transaction})
+        return {status:200,data:{id:product.id}}
+    }
+    await checkAvailabilityChange(product,values['availability'],transaction)
+    return {status:200,data:await product.update(values,{transaction})}
+}
+
+export const bulkProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const mode=req.body.mode ?? 'atomic'
+    const operations:BulkOperation[]=[]
+    const report=[]
+    for(const [index,operation] of (req.body.operations as Record<string,unknown>[]).entries()){
+        const result=await validateOperation(operation)
+        if(result.errors.length){
+            report.push({index,errors:result.errors})
+        }else{
+            operations.push(result.values as BulkOperation)
+        }
+    }
+    if(report.length){
+        throw new ValidationError(report,'BULK_INVALID_OPERATIONS')
+    }
+
+    const results:BulkResult[]=[]
+    if(mode==='atomic'){
+        await db.transaction(async transaction=>{
+            for(const [index,operation] of operations.entries()){
+                try {
+                    results.push({index,op:operation.op,...await applyOperation(operation,transaction)})
+                } catch (error) {
+                    const appError=toAppError(error)
+                    throw new AppError(appError.statusCode,appError.code,message('BULK_OPERATION_FAILED',{index,reason:appError.reason}))
+                }
+            }
+        })
+    }else{
+        // Cada operacion se confirma por separado; un fallo no afecta al resto
+        for(const [index,operation] of operations.entries()){
+            try {
+                const result = await db.transaction(transaction=>applyOperation(operation,transaction))
+                results.push({index,op:operation.op,...result})
+            } catch (error) {
+                const appError=toAppError(error)
+                const{code,reason,message}=appError.toJSON(currentLocale()).error
+                results.push({index,op:operation.op,status:appError.statusCode,error:{code,reason,message}})
+            }
+        }
+    }
+    const failed=results.filter(result=>result.error).length
+    res.json({
+        data:{
+            mode,
+            succeeded:results.length-failed,
+            failed,
+            results
+        }
+    })
+})
+
+export const adjustPrices=asyncHandler(async(req:Request,res:Response)=>{
+    const{type,value,currency}=req.body
+    const dryRun=String(req.query.dryRun)==='true'
+    const changes = await db.transaction(async transaction=>{
+        const products = await Product.findAll({
+            where:{
+                ...buildProductFilters(req.query),
+                ...(currency && {currency})
+            },
+            order:[
+                ['id','ASC']
+            ],
+            transaction,
+            lock:transaction.LOCK.UPDATE
+        })
+        const changes=products.map(product=>({
+            product,
+            oldPrice:product.price,
+            price:roundAmount(type==='percentage' ? product.price*(1+value/100) : product.price+value,product.currency)
+        }))
+        const invalid=changes.filter(change=>change.price<=0)
+        if(invalid.length){
+            throw new ConflictError(message('ADJUSTMENT_INVALID_PRICES',{count:invalid.length}))
+        }
+        if(!dryRun){
+            for(const change of changes){
+                await change.product.update({price:change.price},{transaction})
+            }
+        }
+        return changes
+    })
+    res.json({
+        data:{
+            dryRun,
+            updated:dryRun ? 0 : changes.length,
+            products:changes.map(({product,oldPrice,price})=>({
+                id:product.id,
+                name:product.name,
+                currency:product.currency,
+                oldPrice,
+                price
+            }))
+        }
+    })
+})
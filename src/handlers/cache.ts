@@ -0,0 +1,6 @@
+import { Request,Response } from "express"
+import productCache from "../cache"
+
+export const getCacheStats=(req:Request,res:Response)=>{
+    res.json({data:productCache.stats()})
+}
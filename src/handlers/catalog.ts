@@ -0,0 +1,128 @@
+import { Request,Response } from "express"
+import { once } from "node:events"
+import { CastingContext, parse } from "csv-parse/sync"
+import { stringify } from "csv-stringify"
+import db from "../config/db"
+import Product from "../models/Product.model"
+import { ValidationError } from "../errors"
+import { message } from "../i18n"
+import { asyncHandler } from "../middleware"
+import { createProductRules, runRules } from "../validators/product"
+import { buildProductFilters, buildProductOrder } from "./product"
+
+const MAX_IMPORT_ROWS=1000
+const EXPORT_BATCH_SIZE=500
+const EXPORT_COLUMNS=['id','name','description','price','currency','availability','stock','categoryId','createdAt','updatedAt']
+
+// En CSV todo llega como texto: una celda vacia es un campo opcional sin valor
+// y la disponibilidad se escribe como en la exportacion (true/false)
+const castCsvCell=(value:string,context:CastingContext)=>{
+    if(context.header){
+        return value
+    }
+    if(value===''){
+        return undefined
+    }
+    if(context.column==='availability' && ['true','false'].includes(value)){
+        return value==='true'
+    }
+    return value
+}
+
+const parseImportRows=(req:Request):Record<string,unknown>[]=>{
+    if(req.is('text/csv')){
+        try {
+            return parse(req.body ?? '',{columns:true,skip_empty_lines:true,trim:true,cast:castCsvCell})
+        } catch (error) {
+            throw new ValidationError([{msg:message('INVALID_CSV',{detail:error.message})}])
+        }
+    }
+    const rows=Array.isArray(req.body) ? req.body : req.body?.products
+    if(!Array.isArray(rows)){
+        throw new ValidationError([{msg:'IMPORT_LIST_EXPECTED'}])
+    }
+    return rows
+}
+
+export const importProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const rows=parseImportRows(req)
+    if(rows.length===0 || rows.length>MAX_IMPORT_ROWS){
+        throw new ValidationError([{msg:message('IMPORT_SIZE',{max:MAX_IMPORT_ROWS})}])
+    }
+    const values=[]
+    const report=[]
+    for(const [index,row] of rows.entries()){
+        // Cada fila se valida con las mismas reglas que POST /api/products
+        const result=await runRules(createProductRules,row)
+        if(result.errors.length){
+            report.push({row:index+1,errors:result.errors})
+        }else{
+            values.push(result.values)
+        }
+    }
+    if(report.length){
+        throw new ValidationError(report,'IMPORT_INVALID_ROWS')
+    }
+    const dryRun=String(req.query.dryRun)==='true'
+    if(dryRun){
+        res.json({data:{dryRun,valid:values.length,created:0}})
+        return
+    }
+    const products = await db.transaction(transaction=>Product.bulkCreate(values,{transaction,individualHooks:true}))
+    res.status(201).json({data:{dryRun,valid:values.length,created:products.length}})
+})
+
+export const exportProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const format=req.query.format==='json' ? 'json' : 'csv'
+    const where=buildProductFilters(req.query)
+    const order=[...buildProductOrder(req.query.sort as string),['id','ASC']]
+    const batches=async function*(){
+        for(let offset=0;;offset+=EXPORT_BATCH_SIZE){
+            const batch = await Product.findAll({
+                attributes:EXPORT_COLUMNS,
+                where,
+                order:order as [string,string][],
+                limit:EXPORT_BATCH_SIZE,
+                offset,
+                raw:true
+            })
+            if(batch.length===0){
+                return
+            }
+            // Con raw:true los DECIMAL llegan como texto
+            yield batch.map(product=>({...product,price:product.price===null ? null : Number(product.price)}))
+        }
+    }
+
+    res.attachment(`productos.${format}`)
+    if(format==='json'){
+        let first=true
+        res.write('[')
+        for await(const batch of batches()){
+            for(const product of batch){
+                res.write((first ? '' : ',')+JSON.stringify(product))
+                first=false
+            }
+        }
+        res.end(']')
+        return
+    }
+
+    const stringifier=stringify({
+        header:true,
+        columns:EXPORT_COLUMNS,
+        cast:{
+            boolean:value=>String(value),
+            date:value=>value.toISOString()
+        }
+    })
+    stringifier.pipe(res)
+    for await(const batch of batches()){
+        for(const product of batch){
+            if(!stringifier.write(product)){
+                await once(stringifier,'drain')
+            }
+        }
+    }
+    stringifier.end()
+})
@@ -0,0 +1,50 @@
+import { Request,Response } from "express"
+import Category from "../models/Category.model"
+import Product from "../models/Product.model"
+import { ConflictError, NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { t } from "../i18n"
+
+const findCategoryOrFail=async(id:string)=>{
+    const category = await Category.findByPk(id)
+    if(!category){
+        throw new NotFoundError('CATEGORY_NOT_FOUND')
+    }
+    return category
+}
+
+export const getCategories=asyncHandler(async(req:Request,res:Response)=>{
+    const categories = await Category.findAll({
+        order:[
+            ['name','ASC']
+        ]
+    });
+    res.json({data:categories})
+})
+
+export const getCategoryById=asyncHandler(async(req:Request,res:Response)=>{
+    const category = await findCategoryOrFail(req.params.id)
+    res.json({data:category})
+})
+
+export const createCategory=asyncHandler(async(req:Request,res:Response)=>{
+    const category = await Category.create(req.body)
+    res.status(201).json({data:category})
+})
+
+export const updateCategory=asyncHandler(async(req:Request,res:Response)=>{
+    const category = await findCategoryOrFail(req.params.id)
+    await category.update(req.body)
+    res.json({data:category})
+})
+
+export const deleteCategory=asyncHandler(async(req:Request,res:Response)=>{
+    const category = await findCategoryOrFail(req.params.id)
+    // Los productos en la papelera siguen referenciando la categoria
+    const products = await Product.count({where:{categoryId:category.id},paranoid:false})
+    if(products>0){
+        throw new ConflictError('CATEGORY_HAS_PRODUCTS')
+    }
+    await category.destroy()
+    res.json({data:t('CATEGORY_DELETED')})
+})
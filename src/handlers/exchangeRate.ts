@@ -0,0 +1,30 @@
+import { Request,Response } from "express"
+import ExchangeRate from "../models/ExchangeRate.model"
+import { NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { t } from "../i18n"
+
+export const getExchangeRates=asyncHandler(async(req:Request,res:Response)=>{
+    const exchangeRates = await ExchangeRate.findAll({
+        order:[
+            ['base','ASC'],
+            ['quote','ASC']
+        ]
+    })
+    res.json({data:exchangeRates})
+})
+
+export const saveExchangeRate=asyncHandler(async(req:Request,res:Response)=>{
+    const{base,quote}=req.params
+    const[exchangeRate,created] = await ExchangeRate.upsert({base,quote,rate:req.body.rate})
+    res.status(created ? 201 : 200).json({data:exchangeRate})
+})
+
+export const deleteExchangeRate=asyncHandler(async(req:Request,res:Response)=>{
+    const exchangeRate = await ExchangeRate.findOne({where:{base:req.params.base,quote:req.params.quote}})
+    if(!exchangeRate){
+        throw new NotFoundError('EXCHANGE_RATE_NOT_FOUND')
+    }
+    await exchangeRate.destroy()
+    res.json({data:t('EXCHANGE_RATE_DELETED')})
+})
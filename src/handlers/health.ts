@@ -0,0 +1,33 @@
+import { Request,Response } from "express"
+import db from "../config/db"
+
+const READINESS_TIMEOUT=2000
+
+let shuttingDown=false
+
+export const markShuttingDown=()=>{
+    shuttingDown=true
+}
+
+export const getHealth=(req:Request,res:Response)=>{
+    res.json({
+        status:'ok',
+        uptime:process.uptime()
+    })
+}
+
+export const getReadiness=async(req:Request,res:Response)=>{
+    if(shuttingDown){
+        res.status(503).json({status:'unavailable',database:'unknown',reason:'El servidor se esta apagando'})
+        return
+    }
+    try {
+        await Promise.race([
+            db.authenticate(),
+            new Promise((_,reject)=>setTimeout(()=>reject(new Error('Tiempo de espera agotado')),READINESS_TIMEOUT).unref())
+        ])
+        res.json({status:'ok',database:'up'})
+    } catch (error) {
+        res.status(503).json({status:'unavailable',database:'down',reason:error.message})
+    }
+}
@@ -0,0 +1,44 @@
+import { Request,Response } from "express"
+import { Op, WhereOptions } from "sequelize"
+import Product from "../models/Product.model"
+import ProductAudit from "../models/ProductAudit.model"
+import { NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+
+export const getProductHistory=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.findByPk(req.params.id,{paranoid:false})
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    const{from,to,field}=req.query
+    const where:WhereOptions={productId:product.id}
+    if(from!==undefined || to!==undefined){
+        where['createdAt']={
+            ...(from!==undefined && {[Op.gte]:from}),
+            ...(to!==undefined && {[Op.lte]:to})
+        }
+    }
+    if(field!==undefined){
+        where['newValues']={[field as string]:{[Op.ne]:null}}
+    }
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const{rows,count} = await ProductAudit.findAndCountAll({
+        where,
+        order:[
+            ['createdAt','DESC'],
+            ['id','DESC']
+        ],
+        limit,
+        offset:(page-1)*limit
+    })
+    res.json({
+        data:rows,
+        meta:{
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
@@ -0,0 +1,176 @@
+import { Request,Response } from "express"
+import { randomUUID } from "crypto"
+import { Transaction } from "sequelize"
+import db from "../config/db"
+import Product from "../models/Product.model"
+import ProductImage from "../models/ProductImage.model"
+import storage from "../storage"
+import { ConflictError, NotFoundError, ValidationError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { message, MessageCode, t } from "../i18n"
+import { processImage } from "../utils/images"
+
+export const MAX_IMAGES_PER_PRODUCT=20
+
+const imageError=(msg:MessageCode,value?:string)=>({type:'field',location:'body',path:'images',msg,value})
+
+// Bloquea el producto para que los cambios en su galeria se apliquen en serie
+export const lockProductOrFail=async(id:string,transaction:Transaction)=>{
+    const product = await Product.findByPk(id,{
+        transaction,
+        lock:transaction.LOCK.UPDATE
+    })
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+const findImageOrFail=async(product:Product,id:string,transaction:Transaction)=>{
+    const image = await ProductImage.findOne({
+        where:{id,productId:product.id},
+        transaction
+    })
+    if(!image){
+        throw new NotFoundError('IMAGE_NOT_FOUND')
+    }
+    return image
+}
+
+// Las imagenes forman parte del producto, asi que cambiarlas genera una nueva version (y ETag)
+const touchProduct=(product:Product,transaction:Transaction)=>{
+    product.changed('updatedAt',true)
+    return product.save({transaction})
+}
+
+const listImages=(product:Product,transaction?:Transaction)=>ProductImage.findAll({
+    where:{productId:product.id},
+    order:[
+        ['position','ASC'],
+        ['id','ASC']
+    ],
+    transaction
+})
+
+export const getProductImages=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.findByPk(req.params.id)
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    res.json({data:await listImages(product)})
+})
+
+export const uploadProductImages=asyncHandler(async(req:Request,res:Response)=>{
+    const files=(req.files ?? []) as Express.Multer.File[]
+    if(files.length===0){
+        throw new ValidationError([imageError('IMAGES_REQUIRED')])
+    }
+    const processed=[]
+    for(const file of files){
+        processed.push(await processImage(file.buffer))
+    }
+    const invalid=files.filter((file,index)=>!processed[index])
+    if(invalid.length){
+        throw new ValidationError(invalid.map(file=>imageError('INVALID_IMAGE',file.originalname)))
+    }
+
+    const savedKeys:string[]=[]
+    try {
+        const images = await db.transaction(async transaction=>{
+            const product = await lockProductOrFail(req.params.id,transaction)
+            const existing = await listImages(product,transaction)
+            if(existing.length+files.length>MAX_IMAGES_PER_PRODUCT){
+                throw new ConflictError(message('TOO_MANY_PRODUCT_IMAGES',{max:MAX_IMAGES_PER_PRODUCT}))
+            }
+            const lastPosition=existing.length ? existing[existing.length-1].position : -1
+            const hasPrimary=existing.some(image=>image.isPrimary)
+            const values=[]
+            for(const [index,file] of files.entries()){
+                const{contentType,width,height,thumbnail}=processed[index]!
+                const name=`products/${product.id}/${randomUUID()}`
+                const key=`${name}.${contentType.split('/')[1]}`
+                const thumbnailKey=`${name}-thumb.webp`
+                await storage.save(key,file.buffer,contentType)
+                savedKeys.push(key)
+                await storage.save(thumbnailKey,thumbnail,'image/webp')
+                savedKeys.push(thumbnailKey)
+                values.push({
+                    productId:product.id,
+                    key,
+                    thumbnailKey,
+                    contentType,
+                    size:file.size,
+                    width,
+                    height,
+                    position:lastPosition+index+1,
+                    // La primera imagen de un producto pasa a ser la principal
+                    isPrimary:!hasPrimary && index===0
+                })
+            }
+            const images = await ProductImage.bulkCreate(values,{transaction})
+            await touchProduct(product,transaction)
+            return images
+        })
+        res.status(201).json({data:images})
+    } catch (error) {
+        await Promise.all(savedKeys.map(key=>storage.remove(key)))
+        throw error
+    }
+})
+
+export const setPrimaryImage=asyncHandler(async(req:Request,res:Response)=>{
+    const image = await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        const image = await findImageOrFail(product,req.params.imageId,transaction)
+        if(image.isPrimary){
+            return image
+        }
+        await ProductImage.update({isPrimary:false},{
+            where:{productId:product.id,isPrimary:true},
+            transaction
+        })
+        await image.update({isPrimary:true},{transaction})
+        await touchProduct(product,transaction)
+        return image
+    })
+    res.json({data:image})
+})
+
+export const reorderProductImages=asyncHandler(async(req:Request,res:Response)=>{
+    const ids:number[]=req.body.ids
+    const images = await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        const images = await listImages(product,transaction)
+        const current=images.map(image=>image.id)
+        if(ids.length!==current.length || new Set(ids).size!==ids.length || !ids.every(id=>current.includes(id))){
+            throw new ValidationError([{
+                type:'field',
+                location:'body',
+                path:'ids',
+                msg:'IMAGE_ORDER_MISMATCH',
+                value:ids
+            }])
+        }
+        for(const image of images){
+            await image.update({position:ids.indexOf(image.id)},{transaction})
+        }
+        await touchProduct(product,transaction)
+        return images.sort((a,b)=>a.position-b.position)
+    })
+    res.json({data:images})
+})
+
+export const deleteProductImage=asyncHandler(async(req:Request,res:Response)=>{
+    await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        const image = await findImageOrFail(product,req.params.imageId,transaction)
+        await image.destroy({transaction})
+        // Si se borra la imagen principal, la siguiente en orden ocupa su lugar
+        if(image.isPrimary){
+            const [next] = await listImages(product,transaction)
+            await next?.update({isPrimary:true},{transaction})
+        }
+        await touchProduct(product,transaction)
+    })
+    res.json({data:t('IMAGE_DELETED')})
+})
@@ -0,0 +1,205 @@
+import { Request,Response } from "express"
+import { FindOptions, Transaction, WhereOptions } from "sequelize"
+import db from "../config/db"
+import Order, { OrderStatus } from "../models/Order.model"
+import OrderItem from "../models/OrderItem.model"
+import Product from "../models/Product.model"
+import ProductVariant from "../models/ProductVariant.model"
+import { ConflictError, NotFoundError, ValidationError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { message } from "../i18n"
+import { roundAmount } from "../utils/money"
+import { applyStockMovement } from "./stock"
+
+type OrderLine={
+    productId:number
+    variantId?:number
+    quantity:number
+}
+
+const lineError=(index:number,field:string,msg:string,value:unknown)=>({
+    type:'field',
+    location:'body',
+    path:`items[${index}].${field}`,
+    msg,
+    value
+})
+
+// Los administradores y editores gestionan todos los pedidos; el resto solo los suyos
+const canManageOrders=(req:Request)=>req.user?.role==='admin' || req.user?.role==='editor'
+
+const findOrderOrFail=async(req:Request,options:FindOptions={})=>{
+    const order = await Order.findByPk(req.params.id,options)
+    if(!order || (!canManageOrders(req) && order.userId!==req.user?.id)){
+        throw new NotFoundError('ORDER_NOT_FOUND')
+    }
+    return order
+}
+
+// Al cancelar, las unidades vuelven al stock de los productos que aun existen (tambien en la papelera)
+const restockOrder=async(req:Request,order:Order,transaction:Transaction)=>{
+    const items = await OrderItem.findAll({where:{orderId:order.id},transaction})
+    const products = await Product.findAll({
+        where:{id:items.map(item=>item.productId).filter(id=>id!==null)},
+        order:[['id','ASC']],
+        paranoid:false,
+        transaction,
+        lock:transaction.LOCK.UPDATE
+    })
+    for(const item of items){
+        const product=products.find(product=>product.id===item.productId)
+        if(!product){
+            continue
+        }
+        await applyStockMovement(product,{
+            type:'increase',
+            quantity:item.quantity,
+            reason:`Cancelacion del pedido ${order.id}`,
+            userId:req.user?.id
+        },transaction)
+    }
+}
+
+const changeOrderStatus=async(req:Request,status:OrderStatus)=>{
+    const order = await db.transaction(async transaction=>{
+        const order = await findOrderOrFail(req,{
+            transaction,
+            lock:transaction.LOCK.UPDATE
+        })
+        if(!order.canTransitionTo(status)){
+            throw new ConflictError(message('ORDER_INVALID_TRANSITION',{from:order.status,to:status}))
+        }
+        if(status==='cancelled'){
+            await restockOrder(req,order,transaction)
+        }
+        return order.update({status},{transaction})
+    })
+    return order.reload({include:[OrderItem]})
+}
+
+export const getOrders=asyncHandler(async(req:Request,res:Response)=>{
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const where:WhereOptions={}
+    if(!canManageOrders(req)){
+        where['userId']=req.user?.id
+    }else if(req.query.userId!==undefined){
+        where['userId']=req.query.userId
+    }
+    if(req.query.status!==undefined){
+        where['status']=req.query.status
+    }
+    const{rows,count} = await Order.findAndCountAll({
+        where,
+        include:[OrderItem],
+        distinct:true,
+        order:[
+            ['createdAt','DESC'],
+            ['id','DESC']
+        ],
+        limit,
+        offset:(page-1)*limit
+    })
+    res.json({
+        data:rows,
+        meta:{
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
+
+export const getOrderById=asyncHandler(async(req:Request,res:Response)=>{
+    const order = await findOrderOrFail(req,{include:[OrderItem]})
+    res.json({data:order})
+})
+
+export const createOrder=asyncHandler(async(req:Request,res:Response)=>{
+    const lines:OrderLine[]=req.body.items
+    const order = await db.transaction(async transaction=>{
+        // Bloquea los productos para que el precio, la disponibilidad y el stock no cambien durante la compra
+        const products = await Product.findAll({
+            where:{id:lines.map(line=>line.productId)},
+            order:[['id','ASC']],
+            transaction,
+            lock:transaction.LOCK.UPDATE
+        })
+        const findProduct=(id:number)=>products.find(product=>product.id===id)
+        const missing=lines.map((line,index)=>({line,index})).filter(({line})=>!findProduct(line.productId))
+        if(missing.length){
+            throw new ValidationError(missing.map(({line,index})=>lineError(index,'productId','PRODUCT_NOT_FOUND',line.productId)))
+        }
+        // Un producto con variantes se vende por variante, con su precio y su disponibilidad
+        const variants = await ProductVariant.findAll({where:{productId:products.map(product=>product.id)},transaction})
+        const findVariant=(line:OrderLine)=>variants.find(variant=>variant.id===line.variantId && variant.productId===line.productId)
+        const variantErrors=lines.flatMap((line,index)=>{
+            if(line.variantId!==undefined){
+                return findVariant(line) ? [] : [lineError(index,'variantId','VARIANT_NOT_FOUND',line.variantId)]
+            }
+            return variants.some(variant=>variant.productId===line.productId)
+                ? [lineError(index,'variantId','ORDER_VARIANT_REQUIRED',undefined)]
+                : []
+        })
+        if(variantErrors.length){
+            throw new ValidationError(variantErrors)
+        }
+        const unavailable=lines.filter(line=>!(findVariant(line) ?? findProduct(line.productId)!).availability)
+        if(unavailable.length){
+            const names=unavailable.map(line=>{
+                const variant=findVariant(line)
+                return variant ? `${findProduct(line.productId)!.name} (${variant.sku})` : findProduct(line.productId)!.name
+            })
+            throw new ConflictError(message('ORDER_PRODUCTS_UNAVAILABLE',{products:names.join(', ')}))
+        }
+        // Las variantes comparten el stock del producto
+        const ordered=new Map<number,number>()
+        lines.forEach(line=>ordered.set(line.productId,(ordered.get(line.productId) ?? 0)+line.quantity))
+        if(products.some(product=>ordered.get(product.id)!>product.stock)){
+            throw new ConflictError('INSUFFICIENT_STOCK')
+        }
+        const currency=products[0].currency
+        if(products.some(product=>product.currency!==currency)){
+            throw new ConflictError('ORDER_MIXED_CURRENCIES')
+        }
+        const items=lines.map(line=>{
+            const product=findProduct(line.productId)!
+            const variant=findVariant(line)
+            const unitPrice=variant?.price ?? product.price
+            return {
+                productId:product.id,
+                variantId:variant?.id ?? null,
+                sku:variant?.sku ?? null,
+                productName:product.name,
+                unitPrice,
+                quantity:line.quantity,
+                subtotal:roundAmount(unitPrice*line.quantity,currency)
+            }
+        })
+        const order = await Order.create({
+            userId:req.user?.id,
+            currency,
+            total:roundAmount(items.reduce((total,item)=>total+item.subtotal,0),currency),
+            items
+        },{include:[OrderItem],transaction})
+        for(const line of lines){
+            await applyStockMovement(findProduct(line.productId)!,{
+                type:'decrease',
+                quantity:line.quantity,
+                reason:`Pedido ${order.id}`,
+                userId:req.user?.id
+            },transaction)
+        }
+        return order
+    })
+    res.status(201).json({data:order})
+})
+
+export const cancelOrder=asyncHandler(async(req:Request,res:Response)=>{
+    res.json({data:await changeOrderStatus(req,'cancelled')})
+})
+
+export const updateOrderStatus=asyncHandler(async(req:Request,res:Response)=>{
+    res.json({data:await changeOrderStatus(req,req.body.status)})
+})
@@ -1,95 +1,265 @@
 import { Request,Response } from "express"
+import { FindOptions, Op, OrderItem, WhereOptions } from "sequelize"
+import db from "../config/db"
 import Product from "../models/Product.model"
+import Category from "../models/Category.model"
+import ProductImage from "../models/ProductImage.model"
+import ProductVariant from "../models/ProductVariant.model"
+import ExchangeRate from "../models/ExchangeRate.model"
+import { NotFoundError, PreconditionFailedError, UnprocessableEntityError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { message, t } from "../i18n"
+import { escapeLike, toPrefixTsQuery } from "../utils/search"
+import { SORTABLE_COLUMNS } from "../validators/product"
+import { convertAmount } from "../utils/money"
+import { checkAvailabilityChange } from "./stock"
 
-export const getProducts=async(req:Request,res:Response)=>{
-    try {
-        const products = await Product.findAll({
-            order:[
-                ['price','DESC']
-            ]
-        });
-        res.json({data:products})
-    } catch (error) {
-        console.log(error)
+const findProductOrFail=async(id:string,options:FindOptions={})=>{
+    const product = await Product.findByPk(id,options)
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
     }
+    return product
 }
 
+const productETag=(product:Product)=>`"${product.id}-${product.version}"`
 
-export const getProductById=async(req:Request,res:Response)=>{
-    try {
-       const{id}=req.params
-       const product = await Product.findByPk(id)
-       if(!product){
-        res.status(404).json({
-            error:'Producto no encontrado'
-        })
+// Rechaza la peticion si el cliente modifica una version que ya no es la actual
+const checkIfMatch=(req:Request,product:Product)=>{
+    const ifMatch=req.get('If-Match')
+    if(!ifMatch || ifMatch.trim()==='*'){
         return
-       }
-       res.json({data:product})
-    } catch (error) {
-        console.log(error)
+    }
+    const etags=ifMatch.split(',').map(etag=>etag.trim().replace(/^W\//,''))
+    if(!etags.includes(productETag(product))){
+        throw new PreconditionFailedError()
     }
 }
 
-
-export const createProduct=async(req:Request,res:Response):Promise<void>=>{
-    try {
-        const product = await Product.create(req.body)
-        res.status(201).json({data:product})    
-    } catch (error) {
-        console.log(error)
+const findTrashedProductOrFail=async(id:string)=>{
+    const product = await Product.findByPk(id,{paranoid:false})
+    if(!product || !product.isSoftDeleted()){
+        throw new NotFoundError('PRODUCT_NOT_IN_TRASH')
     }
-    
+    return product
 }
 
-export const updateProduct=async(req:Request,res:Response)=>{
-    try {
-        const{id}=req.params
-       const product = await Product.findByPk(id)
-       if(!product){
-        res.status(404).json({
-            error:'Producto no encontrado'
-        })
-        return
-       }
-       await product.update(req.body)
-       await product.save()
-       res.json({data:product})
-    } catch (error) {
-        console.log(error)
+// Agrega a cada producto su precio en la moneda pedida (?currency=USD) sin reemplazar el original
+const withConvertedPrices=async(products:Product[],currency?:string)=>{
+    if(!currency){
+        return products
     }
+    const currencies=products.map(product=>product.currency)
+    const rates = await ExchangeRate.findRates(currencies,currency)
+    const missing=[...new Set(currencies)].filter(from=>!rates.has(from))
+    if(missing.length){
+        throw new UnprocessableEntityError(message('EXCHANGE_RATE_MISSING',{from:missing.join(', '),to:currency}))
+    }
+    return products.map(product=>{
+        const rate=rates.get(product.currency)
+        const json=product.toJSON()
+        return {
+            ...json,
+            converted:{
+                currency,
+                price:convertAmount(product.price,rate,currency),
+                rate
+            },
+            // Las variantes sin precio propio se convierten con el precio del producto
+            ...(product.variants && {
+                variants:json.variants.map(variant=>({
+                    ...variant,
+                    converted:{
+                        currency,
+                        price:convertAmount(variant.price ?? product.price,rate,currency),
+                        rate
+                    }
+                }))
+            })
+        }
+    })
 }
-export const updateAvailability=async(req:Request,res:Response)=>{
-    try {
-        const{id}=req.params
-       const product = await Product.findByPk(id)
-       if(!product){
-        res.status(404).json({
-            error:'Producto no encontrado'
-        })
-        return
-       }
-       product.availability=!product.dataValues.availability
-       await product.save()
-       res.json({data:product})
-    } catch (error) {
-        console.log(error)
+
+// Las variantes solo se incluyen si se piden con ?include=variants
+const optionalIncludes=(query:Request['query'])=>
+    String(query.include ?? '').split(',').map(item=>item.trim()).includes('variants')
+        ? [{model:ProductVariant,separate:true,order:[['id','ASC']] as [string,string][]}]
+        : []
+
+export const buildProductFilters=(query:Request['query']):WhereOptions=>{
+    const where:WhereOptions={}
+    const{availability,minPrice,maxPrice,search,categoryId}=query
+    if(availability!==undefined){
+        where['availability']=availability
+    }
+    if(categoryId!==undefined){
+        where['categoryId']=categoryId
+    }
+    if(minPrice!==undefined || maxPrice!==undefined){
+        where['price']={
+            ...(minPrice!==undefined && {[Op.gte]:minPrice}),
+            ...(maxPrice!==undefined && {[Op.lte]:maxPrice})
+        }
+    }
+    if(search){
+        where['name']={[Op.iLike]:`%${escapeLike(String(search))}%`}
     }
+    return where
 }
 
-export const deleteProduct=async(req:Request,res:Response)=>{
-    try {
-        const{id}=req.params
-       const product = await Product.findByPk(id)
-       if(!product){
-        res.status(404).json({
-            error:'Producto no encontrado'
-        })
+export const buildProductOrder=(sort:string='-price'):[string,string][]=>{
+    const direction=sort.startsWith('-') ? 'DESC' : 'ASC'
+    const column=sort.replace(/^[-+]/,'')
+    return [[SORTABLE_COLUMNS.includes(column) ? column : 'price',direction]]
+}
+
+export const getProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const{rows,count} = await Product.findAndCountAll({
+        where:buildProductFilters(req.query),
+        include:[
+            Category,
+            // En el listado solo se incluye la imagen principal
+            {model:ProductImage,where:{isPrimary:true},required:false},
+            ...optionalIncludes(req.query)
+        ],
+        distinct:true,
+        // El id desempata: sin el, las filas con el mismo valor pueden repetirse o saltarse entre paginas
+        order:[...buildProductOrder(req.query.sort as string),['id','ASC']],
+        limit,
+        offset:(page-1)*limit
+    });
+    res.json({
+        data:await withConvertedPrices(rows,req.query.currency as string),
+        meta:{
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
+
+
+export const searchProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const tsQuery=db.fn('to_tsquery','es_unaccent',toPrefixTsQuery(req.query.q as string))
+    const rank=db.fn('ts_rank_cd',db.col('Product.searchVector'),tsQuery)
+    // Con ?sort la relevancia solo desempata
+    const byRank:OrderItem=[db.literal('rank'),'DESC']
+    const sort=req.query.sort as string
+    const{rows,count} = await Product.findAndCountAll({
+        attributes:{include:[[rank,'rank']]},
+        where:{
+            [Op.and]:[
+                buildProductFilters(req.query),
+                db.where(db.col('Product.searchVector'),Op.match,tsQuery)
+            ]
+        },
+        include:[Category,...optionalIncludes(req.query)],
+        order:[
+            ...(sort ? buildProductOrder(sort) : []),
+            byRank,
+            ['id','ASC']
+        ],
+        limit,
+        offset:(page-1)*limit
+    })
+    res.json({
+        data:await withConvertedPrices(rows,req.query.currency as string),
+        meta:{
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
+
+
+export const getProductById=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findProductOrFail(req.params.id,{
+        include:[
+            Category,
+            {model:ProductImage,separate:true,order:[['position','ASC'],['id','ASC']]},
+            ...optionalIncludes(req.query)
+        ]
+    })
+    const currency=req.query.currency as string
+    const [data] = await withConvertedPrices([product],currency)
+    // El precio convertido cambia con el tipo de cambio aunque el producto no cambie
+    res.set('ETag',currency ? `"${product.id}-${product.version}-${currency}-${data['converted'].rate}"` : productETag(product))
+    if(req.fresh){
+        res.status(304).end()
         return
-       }
-       await product.destroy()
-       res.json({data:'Producto eliminado'})
-    } catch (error) {
-        console.log(error)
     }
-}
\ No newline at end of file
+    res.json({data})
+})
+
+
+export const createProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.create(req.body)
+    res.status(201).set('ETag',productETag(product)).json({data:product})
+})
+
+export const updateProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findProductOrFail(req.params.id)
+    checkIfMatch(req,product)
+    await checkAvailabilityChange(product,req.body.availability)
+    await product.update(req.body)
+    await product.save()
+    res.set('ETag',productETag(product))
+    res.json({data:product})
+})
+
+export const patchProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findProductOrFail(req.params.id)
+    checkIfMatch(req,product)
+    await checkAvailabilityChange(product,req.body.availability)
+    await product.update(req.body)
+    res.set('ETag',productETag(product))
+    res.json({data:product})
+})
+
+export const updateAvailability=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findProductOrFail(req.params.id)
+    checkIfMatch(req,product)
+    await checkAvailabilityChange(product,!product.dataValues.availability)
+    product.availability=!product.dataValues.availability
+    await product.save()
+    res.set('ETag',productETag(product))
+    res.json({data:product})
+})
+
+export const deleteProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findProductOrFail(req.params.id)
+    checkIfMatch(req,product)
+    await product.destroy()
+    res.json({data:t('PRODUCT_DELETED')})
+})
+
+export const getTrashedProducts=asyncHandler(async(req:Request,res:Response)=>{
+    const products = await Product.findAll({
+        where:{deletedAt:{[Op.ne]:null}},
+        include:[Category],
+        paranoid:false,
+        order:[
+            ['deletedAt','DESC']
+        ]
+    })
+    res.json({data:products})
+})
+
+export const restoreProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findTrashedProductOrFail(req.params.id)
+    await product.restore()
+    res.json({data:product})
+})
+
+export const purgeProduct=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await findTrashedProductOrFail(req.params.id)
+    await product.destroy({force:true})
+    res.json({data:t('PRODUCT_PURGED')})
+})
@@ -0,0 +1,94 @@
+import { Request,Response } from "express"
+import { Transaction } from "sequelize"
+import db from "../config/db"
+import Product from "../models/Product.model"
+import StockMovement, { StockMovementType } from "../models/StockMovement.model"
+import ProductVariant from "../models/ProductVariant.model"
+import { ConflictError, NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+
+// Con variantes, la disponibilidad del producto no se cambia directamente;
+// sin ellas, se puede retirar de la venta pero no ofrecer sin stock
+export const checkAvailabilityChange=async(product:Product,availability:unknown,transaction?:Transaction)=>{
+    if(availability===undefined || availability===product.availability){
+        return
+    }
+    const variants = await ProductVariant.count({where:{productId:product.id},transaction})
+    if(variants>0){
+        throw new ConflictError('VARIANT_AVAILABILITY_LOCKED')
+    }
+    if(availability && product.stock===0){
+        throw new ConflictError('AVAILABILITY_REQUIRES_STOCK')
+    }
+}
+
+export const getStockMovements=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.findByPk(req.params.id)
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const{rows,count} = await StockMovement.findAndCountAll({
+        where:{productId:product.id},
+        order:[
+            ['createdAt','DESC'],
+            ['id','DESC']
+        ],
+        limit,
+        offset:(page-1)*limit
+    })
+    res.json({
+        data:rows,
+        meta:{
+            stock:product.stock,
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
+
+type StockChange={
+    type:StockMovementType
+    quantity:number
+    reason:string
+    userId?:number
+}
+
+// El producto debe llegar bloqueado (LOCK.UPDATE) para que los movimientos concurrentes se apliquen en serie
+export const applyStockMovement=async(product:Product,{type,quantity,reason,userId}:StockChange,transaction:Transaction)=>{
+    const stock=type==='increase' ? product.stock+quantity : product.stock-quantity
+    if(stock<0){
+        throw new ConflictError('INSUFFICIENT_STOCK')
+    }
+    // Al agotarse deja de estar disponible y al reponerse vuelve a estarlo; entre tanto se respeta
+    // la disponibilidad fijada a mano. Con variantes, depende de ellas y no del stock
+    const variants = await ProductVariant.count({where:{productId:product.id},transaction})
+    const crossesZero=stock===0 || product.stock===0
+    await product.update({stock,...(variants===0 && crossesZero && {availability:stock>0})},{transaction})
+    return StockMovement.create({
+        productId:product.id,
+        type,
+        quantity,
+        reason,
+        stockAfter:stock,
+        userId
+    },{transaction})
+}
+
+export const recordStockMovement=asyncHandler(async(req:Request,res:Response)=>{
+    const{type,quantity,reason}=req.body
+    const movement = await db.transaction(async transaction=>{
+        const product = await Product.findByPk(req.params.id,{
+            transaction,
+            lock:transaction.LOCK.UPDATE
+        })
+        if(!product){
+            throw new NotFoundError('PRODUCT_NOT_FOUND')
+        }
+        return applyStockMovement(product,{type,quantity,reason,userId:req.user?.id},transaction)
+    })
+    res.status(201).json({data:movement})
+})
@@ -0,0 +1,113 @@
+import { Request,Response } from "express"
+import { Transaction } from "sequelize"
+import db from "../config/db"
+import Product from "../models/Product.model"
+import ProductVariant from "../models/ProductVariant.model"
+import { ConflictError, NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { t } from "../i18n"
+import { lockProductOrFail } from "./image"
+
+const findVariantOrFail=async(product:Product,id:string,transaction?:Transaction)=>{
+    const variant = await ProductVariant.findOne({
+        where:{id,productId:product.id},
+        transaction
+    })
+    if(!variant){
+        throw new NotFoundError('VARIANT_NOT_FOUND')
+    }
+    return variant
+}
+
+const listVariants=(product:Product,transaction?:Transaction)=>ProductVariant.findAll({
+    where:{productId:product.id},
+    order:[
+        ['id','ASC']
+    ],
+    transaction
+})
+
+// El SKU identifica la variante en todo el catalogo, no solo dentro de su producto
+const checkSkuIsUnique=async(sku:string,transaction:Transaction,variantId?:number)=>{
+    const variant = await ProductVariant.findOne({where:{sku},transaction})
+    if(variant && variant.id!==variantId){
+        throw new ConflictError('SKU_TAKEN')
+    }
+}
+
+// Dos variantes del mismo producto no pueden tener las mismas opciones, sin importar su orden
+const optionsKey=(options:Record<string,string>)=>
+    JSON.stringify(Object.entries(options).sort(([a],[b])=>a.localeCompare(b)))
+
+const checkOptionsAreUnique=(variants:ProductVariant[],options:Record<string,string>,variantId?:number)=>{
+    if(variants.some(variant=>variant.id!==variantId && optionsKey(variant.options)===optionsKey(options))){
+        throw new ConflictError('VARIANT_OPTIONS_TAKEN')
+    }
+}
+
+// Las variantes forman parte del producto: cada cambio genera una nueva version (y ETag)
+// y el producto esta disponible mientras alguna de sus variantes lo este. Sin variantes vuelve a depender del stock
+const syncProduct=async(product:Product,transaction:Transaction)=>{
+    const variants = await listVariants(product,transaction)
+    product.availability=variants.length
+        ? variants.some(variant=>variant.availability)
+        : product.stock>0
+    product.changed('updatedAt',true)
+    await product.save({transaction})
+}
+
+export const getProductVariants=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.findByPk(req.params.id)
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    res.json({data:await listVariants(product)})
+})
+
+export const getProductVariantById=asyncHandler(async(req:Request,res:Response)=>{
+    const product = await Product.findByPk(req.params.id)
+    if(!product){
+        throw new NotFoundError('PRODUCT_NOT_FOUND')
+    }
+    res.json({data:await findVariantOrFail(product,req.params.variantId)})
+})
+
+export const createProductVariant=asyncHandler(async(req:Request,res:Response)=>{
+    const{sku,options,price,availability}=req.body
+    const variant = await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        await checkSkuIsUnique(sku,transaction)
+        checkOptionsAreUnique(await listVariants(product,transaction),options)
+        const variant = await ProductVariant.create({productId:product.id,sku,options,price,availability},{transaction})
+        await syncProduct(product,transaction)
+        return variant
+    })
+    res.status(201).json({data:variant})
+})
+
+export const updateProductVariant=asyncHandler(async(req:Request,res:Response)=>{
+    const variant = await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        const variant = await findVariantOrFail(product,req.params.variantId,transaction)
+        if(req.body.sku){
+            await checkSkuIsUnique(req.body.sku,transaction,variant.id)
+        }
+        if(req.body.options){
+            checkOptionsAreUnique(await listVariants(product,transaction),req.body.options,variant.id)
+        }
+        await variant.update(req.body,{transaction})
+        await syncProduct(product,transaction)
+        return variant
+    })
+    res.json({data:variant})
+})
+
+export const deleteProductVariant=asyncHandler(async(req:Request,res:Response)=>{
+    await db.transaction(async transaction=>{
+        const product = await lockProductOrFail(req.params.id,transaction)
+        const variant = await findVariantOrFail(product,req.params.variantId,transaction)
+        await variant.destroy({transaction})
+        await syncProduct(product,transaction)
+    })
+    res.json({data:t('VARIANT_DELETED')})
+})
@@ -0,0 +1,91 @@
+import { Request,Response } from "express"
+import { WhereOptions } from "sequelize"
+import WebhookSubscription from "../models/WebhookSubscription.model"
+import WebhookDelivery from "../models/WebhookDelivery.model"
+import { ConflictError, NotFoundError } from "../errors"
+import { asyncHandler } from "../middleware"
+import { t } from "../i18n"
+import { redeliver } from "../webhooks/dispatcher"
+
+const findSubscriptionOrFail=async(id:string)=>{
+    const subscription = await WebhookSubscription.findByPk(id)
+    if(!subscription){
+        throw new NotFoundError('WEBHOOK_NOT_FOUND')
+    }
+    return subscription
+}
+
+export const getWebhooks=asyncHandler(async(req:Request,res:Response)=>{
+    const subscriptions = await WebhookSubscription.findAll({
+        order:[
+            ['id','ASC']
+        ]
+    })
+    res.json({data:subscriptions})
+})
+
+export const getWebhookById=asyncHandler(async(req:Request,res:Response)=>{
+    const subscription = await findSubscriptionOrFail(req.params.id)
+    res.json({data:subscription})
+})
+
+export const createWebhook=asyncHandler(async(req:Request,res:Response)=>{
+    const{url,events,description}=req.body
+    const subscription = await WebhookSubscription.create({url,events,description})
+    res.status(201).json({data:subscription})
+})
+
+export const updateWebhook=asyncHandler(async(req:Request,res:Response)=>{
+    const subscription = await findSubscriptionOrFail(req.params.id)
+    await subscription.update(req.body)
+    res.json({data:subscription})
+})
+
+export const deleteWebhook=asyncHandler(async(req:Request,res:Response)=>{
+    const subscription = await findSubscriptionOrFail(req.params.id)
+    await subscription.destroy()
+    res.json({data:t('WEBHOOK_DELETED')})
+})
+
+export const getWebhookDeliveries=asyncHandler(async(req:Request,res:Response)=>{
+    const subscription = await findSubscriptionOrFail(req.params.id)
+    const page=Number(req.query.page) || 1
+    const limit=Number(req.query.limit) || 10
+    const where:WhereOptions={subscriptionId:subscription.id}
+    if(req.query.status!==undefined){
+        where['status']=req.query.status
+    }
+    const{rows,count} = await WebhookDelivery.findAndCountAll({
+        where,
+        order:[
+            ['createdAt','DESC'],
+            ['id','DESC']
+        ],
+        limit,
+        offset:(page-1)*limit
+    })
+    res.json({
+        data:rows,
+        meta:{
+            total:count,
+            page,
+            limit,
+            totalPages:Math.ceil(count/limit)
+        }
+    })
+})
+
+export const retryWebhookDelivery=asyncHandler(async(req:Request,res:Response)=>{
+    const subscription = await findSubscriptionOrFail(req.params.id)
+    const delivery = await WebhookDelivery.findOne({
+        where:{id:req.params.deliveryId,subscriptionId:subscription.id}
+    })
+    if(!delivery){
+        throw new NotFoundError('DELIVERY_NOT_FOUND')
+    }
+    if(delivery.status!=='failed'){
+        throw new ConflictError('DELIVERY_NOT_RETRYABLE')
+    }
+    await redeliver(delivery)
+    res.status(202).json({data:delivery})
+})
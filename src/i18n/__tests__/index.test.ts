@@ -0,0 +1,35 @@
+import { message, toMessage, translate } from '..'
+import es from '../locales/es'
+import en from '../locales/en'
+
+describe('translate',()=>{
+    it('should return the message in the requested language',()=>{
+        expect(translate('PRODUCT_NOT_FOUND')).toBe('Producto no encontrado')
+        expect(translate('PRODUCT_NOT_FOUND','en')).toBe('Product not found')
+    })
+    it('should replace the parameters, translating nested messages',()=>{
+        expect(translate(message('PRICE_DECIMALS',{decimals:0,currency:'JPY'}),'en')).toBe('Prices in JPY allow at most 0 decimals')
+        const failed=message('BULK_OPERATION_FAILED',{index:2,reason:message('INSUFFICIENT_STOCK')})
+        expect(translate(failed)).toBe('La operacion 2 fallo y no se aplico ningun cambio: Stock insuficiente')
+        expect(translate(failed,'en')).toBe('Operation 2 failed and no changes were applied: Insufficient stock')
+    })
+    it('should keep braces that are not parameters',()=>{
+        expect(translate(message('INVALID_VARIANT_OPTIONS',{max:10}))).toContain('{"talla": "M"}')
+    })
+})
+
+describe('toMessage',()=>{
+    it('should report unknown messages as invalid values',()=>{
+        expect(toMessage('INVALID_ID')).toEqual({code:'INVALID_ID'})
+        expect(toMessage('Invalid value')).toEqual({code:'INVALID_VALUE'})
+    })
+})
+
+describe('catalogs',()=>{
+    it('should use the same parameters in every language',()=>{
+        const params=(text:string)=>(text.match(/\{\w+\}/g) ?? []).sort()
+        for(const code of Object.keys(es)){
+            expect([code,params(en[code])]).toEqual([code,params(es[code])])
+        }
+    })
+})
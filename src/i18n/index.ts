@@ -0,0 +1,60 @@
+import { Request } from 'express'
+import { getRequestContext } from '../utils/requestContext'
+import es from './locales/es'
+import en from './locales/en'
+
+export type MessageCode=keyof typeof es
+export type Catalog=Record<MessageCode,string>
+
+export const LOCALES=['es','en'] as const
+export type Locale=typeof LOCALES[number]
+export const DEFAULT_LOCALE:Locale='es'
+
+const catalogs:Record<Locale,Catalog>={es,en}
+
+// Los mensajes viajan como codigo y parametros; el texto se genera al responder, en el idioma de la peticion.
+// Los validadores personalizados pueden lanzar un Message cuando el texto depende de parametros
+export type Message={
+    code:MessageCode
+    params?:Record<string,unknown>
+}
+
+export const message=(code:MessageCode,params?:Record<string,unknown>):Message=>({code,params})
+
+export const isMessageCode=(value:unknown):value is MessageCode=>typeof value==='string' && Object.hasOwn(es,value)
+
+export const isMessage=(value:unknown):value is Message=>
+    typeof value==='object' && value!==null && isMessageCode((value as Message).code)
+
+// Los mensajes sin codigo (los de express-validator por defecto) se reportan como valor no valido
+export const toMessage=(value:unknown):Message=>{
+    if(isMessage(value)){
+        return value
+    }
+    return {code:isMessageCode(value) ? value : 'INVALID_VALUE'}
+}
+
+export const translate=(value:MessageCode | Message,locale:Locale=DEFAULT_LOCALE):string=>{
+    const{code,params={}}=typeof value==='string' ? {code:value} : value
+    return catalogs[locale][code].replace(/\{(\w+)\}/g,(placeholder,name:string)=>{
+        const param=params[name]
+        if(param===undefined){
+            return placeholder
+        }
+        return isMessage(param) ? translate(param,locale) : String(param)
+    })
+}
+
+// ?lang=en tiene prioridad sobre la cabecera Accept-Language
+export const resolveLocale=(req:Request):Locale=>{
+    const lang=req.query?.lang
+    if(typeof lang==='string' && (LOCALES as readonly string[]).includes(lang)){
+        return lang as Locale
+    }
+    return (req.acceptsLanguages(...LOCALES) || DEFAULT_LOCALE) as Locale
+}
+
+export const currentLocale=():Locale=>getRequestContext().locale ?? DEFAULT_LOCALE
+
+// Traduce al idioma de la peticion en curso
+export const t=(code:MessageCode,params?:Record<string,unknown>)=>translate({code,params},currentLocale())
@@ -0,0 +1,160 @@
+import type { Catalog } from '..'
+
+const en:Catalog={
+    // General errors
+    RESOURCE_NOT_FOUND:'Resource not found',
+    ROUTE_NOT_FOUND:'Route {method} {url} not found',
+    INVALID_INPUT:'Invalid input data',
+    INVALID_VALUE:'Invalid value',
+    CONFLICT:'The resource conflicts with its current state',
+    DUPLICATE_RECORD:'A record with that data already exists',
+    RELATED_RECORDS:'The record is related to other records',
+    UNAUTHORIZED:'Unauthorized',
+    FORBIDDEN:"You don't have permission to perform this action",
+    PRECONDITION_FAILED:'The resource was modified by another request',
+    UNPROCESSABLE_ENTITY:'The request cannot be processed',
+    TOO_MANY_REQUESTS:'Too many requests, try again later',
+    PAYLOAD_TOO_LARGE:'The request body is too large',
+    BAD_REQUEST:'Invalid request: {detail}',
+    INTERNAL_ERROR:'Internal server error',
+    CORS_ORIGIN_NOT_ALLOWED:'Origin not allowed by CORS',
+    UNKNOWN_FIELDS:'The request body contains fields that are not allowed',
+    EMPTY_UPDATE:'You must send at least one field to update',
+    INVALID_ID:'Invalid ID',
+    INVALID_PAGE:'Invalid page',
+    INVALID_LIMIT:'Invalid limit',
+    INVALID_STATUS:'Invalid status',
+    INVALID_QUANTITY:'Invalid quantity',
+    INVALID_DESCRIPTION:'Invalid description',
+    DESCRIPTION_TOO_LONG:'The description is too long',
+
+    // Authentication
+    TOKEN_MISSING:'Token not provided',
+    TOKEN_INVALID:'Invalid token',
+    INVALID_CREDENTIALS:'Invalid credentials',
+    USER_NAME_REQUIRED:'The name is required',
+    INVALID_EMAIL:'Invalid email',
+    EMAIL_TAKEN:'The email is already registered',
+    PASSWORD_TOO_SHORT:'The password must be at least {min} characters long',
+    PASSWORD_REQUIRED:'The password is required',
+    INVALID_USER:'Invalid user',
+
+    // Products
+    PRODUCT_NOT_FOUND:'Product not found',
+    PRODUCT_NOT_IN_TRASH:'Product not found in the trash',
+    PRODUCT_DELETED:'Product deleted',
+    PRODUCT_PURGED:'Product permanently deleted',
+    INVALID_PRODUCT:'Invalid product',
+    PRODUCT_NAME_REQUIRED:'The product name is required',
+    PRICE_REQUIRED:'The product price is required',
+    INVALID_PRICE:'Invalid price',
+    PRICE_DECIMALS:'Prices in {currency} allow at most {decimals} decimals',
+    INVALID_MIN_PRICE:'Invalid minimum price',
+    INVALID_MAX_PRICE:'Invalid maximum price',
+    INVALID_PRICE_RANGE:'The maximum price must be greater than the minimum price',
+    INVALID_AVAILABILITY:'Invalid availability',
+    AVAILABILITY_REQUIRED:'You must send the product availability',
+    INVALID_SORT:'Invalid sort order',
+    INVALID_INCLUDE:'Invalid relation, use {includes}',
+    INVALID_SEARCH:'Invalid search',
+    SEARCH_TOO_LONG:'The search is too long',
+    SEARCH_EMPTY:'The search is required',
+    INVALID_HISTORY_FIELD:'Invalid field',
+    INVALID_FROM_DATE:'Invalid start date',
+    INVALID_TO_DATE:'Invalid end date',
+
+    // Currencies and exchange rates
+    INVALID_CURRENCY:'Invalid currency, use an ISO 4217 code such as USD',
+    INVALID_BASE_CURRENCY:'Invalid base currency',
+    INVALID_QUOTE_CURRENCY:'Invalid quote currency',
+    SAME_CURRENCIES:'The currencies must be different',
+    INVALID_EXCHANGE_RATE:'Invalid exchange rate',
+    EXCHANGE_RATE_DECIMALS:'The exchange rate allows at most {max} decimals',
+    EXCHANGE_RATE_MISSING:'There is no exchange rate from {from} to {to}',
+    EXCHANGE_RATE_NOT_FOUND:'Exchange rate not found',
+    EXCHANGE_RATE_DELETED:'Exchange rate deleted',
+
+    // Categories
+    CATEGORY_NOT_FOUND:'Category not found',
+    CATEGORY_DELETED:'Category deleted',
+    INVALID_CATEGORY:'Invalid category',
+    CATEGORY_NAME_REQUIRED:'The category name is required',
+    CATEGORY_NAME_TOO_LONG:'The category name is too long',
+    CATEGORY_NAME_TAKEN:'A category with that name already exists',
+    CATEGORY_HAS_PRODUCTS:'The category has products',
+
+    // Stock
+    INVALID_STOCK_MOVEMENT_TYPE:'Invalid movement type',
+    STOCK_REASON_REQUIRED:'The movement reason is required',
+    STOCK_REASON_TOO_LONG:'The reason is too long',
+    INSUFFICIENT_STOCK:'Insufficient stock',
+    INVALID_STOCK:'The stock must be an integer equal to or greater than 0',
+    AVAILABILITY_REQUIRES_STOCK:'A product without stock cannot be available',
+
+    // Import, export and bulk operations
+    INVALID_FORMAT:'Invalid format',
+    INVALID_CSV:'Invalid CSV: {detail}',
+    IMPORT_LIST_EXPECTED:'A list of products was expected',
+    IMPORT_SIZE:'The import must have between 1 and {max} products',
+    IMPORT_INVALID_ROWS:'The import contains invalid rows',
+    INVALID_DRY_RUN:'Invalid dryRun',
+    INVALID_BULK_MODE:'Invalid mode',
+    INVALID_BULK_OPERATION:'Invalid operation',
+    BULK_SIZE:'The batch must have between 1 and {max} operations',
+    BULK_INVALID_OPERATIONS:'The batch contains invalid operations',
+    BULK_OPERATION_FAILED:'Operation {index} failed and no changes were applied: {reason}',
+    INVALID_ADJUSTMENT_TYPE:'Invalid adjustment type',
+    ADJUSTMENT_ZERO:'The adjustment cannot be zero',
+    ADJUSTMENT_PERCENTAGE_TOO_LOW:'The percentage cannot lower the price to zero',
+    ADJUSTMENT_CURRENCY_REQUIRED:'Invalid currency, fixed adjustments must state the currency of the prices',
+    ADJUSTMENT_INVALID_PRICES:'The adjustment would leave {count} products with an invalid price',
+
+    // Images
+    IMAGE_NOT_FOUND:'Image not found',
+    IMAGE_DELETED:'Image deleted',
+    INVALID_IMAGE_ID:'Invalid image ID',
+    IMAGES_REQUIRED:'You must send at least one image',
+    INVALID_IMAGE:'The file is not a valid image',
+    IMAGE_FORMAT_NOT_ALLOWED:'Image format not allowed, use JPEG, PNG or WebP',
+    IMAGE_TOO_LARGE:'Each image can weigh at most {kb} KB',
+    TOO_MANY_IMAGES_PER_UPLOAD:'Only {max} images can be uploaded at once',
+    TOO_MANY_PRODUCT_IMAGES:'A product can have at most {max} images',
+    UNEXPECTED_IMAGE_FIELD:'The images must be sent in the "{field}" field',
+    UPLOAD_FAILED:'The file could not be processed: {detail}',
+    IMAGE_ORDER_REQUIRED:'You must send the order of the images',
+    IMAGE_ORDER_MISMATCH:'You must list every image of the product exactly once',
+
+    // Variants
+    VARIANT_NOT_FOUND:'Variant not found',
+    VARIANT_DELETED:'Variant deleted',
+    INVALID_VARIANT_ID:'Invalid variant ID',
+    INVALID_SKU:'Invalid SKU',
+    SKU_FORMAT:'The SKU only allows letters, numbers, dots and dashes',
+    SKU_TOO_LONG:'The SKU is too long',
+    SKU_TAKEN:'A variant with that SKU already exists',
+    INVALID_VARIANT_OPTIONS:'The options must be an object with up to {max} text attributes, such as {"size": "M"}',
+    VARIANT_OPTIONS_TAKEN:'A variant with those options already exists',
+    VARIANT_AVAILABILITY_LOCKED:'The availability of a product with variants depends on its variants',
+
+    // Orders
+    ORDER_NOT_FOUND:'Order not found',
+    ORDER_ITEMS_SIZE:'The order must have between 1 and {max} products',
+    ORDER_DUPLICATE_PRODUCT:'Each product or variant can only appear once in the order',
+    ORDER_VARIANT_REQUIRED:'A product with variants must be ordered by variant',
+    ORDER_INVALID_TRANSITION:'An order in status {from} cannot change to {to}',
+    ORDER_PRODUCTS_UNAVAILABLE:'Unavailable products: {products}',
+    ORDER_MIXED_CURRENCIES:'Every product of the order must have the same currency',
+
+    // Webhooks
+    WEBHOOK_NOT_FOUND:'Webhook not found',
+    WEBHOOK_DELETED:'Webhook deleted',
+    INVALID_URL:'Invalid URL',
+    URL_TOO_LONG:'The URL is too long',
+    WEBHOOK_EVENTS_REQUIRED:'You must send at least one event',
+    INVALID_WEBHOOK_EVENT:'Invalid event',
+    DELIVERY_NOT_FOUND:'Delivery not found',
+    INVALID_DELIVERY_ID:'Invalid delivery ID',
+    DELIVERY_NOT_RETRYABLE:'Only failed deliveries can be retried'
+}
+
+export default en
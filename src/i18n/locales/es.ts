@@ -0,0 +1,159 @@
+// Catalogo de referencia: sus claves son los codigos de mensaje que ve el cliente
+const es={
+    // Errores generales
+    RESOURCE_NOT_FOUND:'Recurso no encontrado',
+    ROUTE_NOT_FOUND:'Ruta {method} {url} no encontrada',
+    INVALID_INPUT:'Datos de entrada no validos',
+    INVALID_VALUE:'Valor no valido',
+    CONFLICT:'El recurso entra en conflicto con el estado actual',
+    DUPLICATE_RECORD:'Ya existe un registro con esos datos',
+    RELATED_RECORDS:'El registro esta relacionado con otros registros',
+    UNAUTHORIZED:'No autorizado',
+    FORBIDDEN:'No tienes permisos para realizar esta accion',
+    PRECONDITION_FAILED:'El recurso fue modificado por otra peticion',
+    UNPROCESSABLE_ENTITY:'La peticion no se puede procesar',
+    TOO_MANY_REQUESTS:'Demasiadas peticiones, intenta de nuevo mas tarde',
+    PAYLOAD_TOO_LARGE:'El cuerpo de la peticion es demasiado grande',
+    BAD_REQUEST:'Peticion no valida: {detail}',
+    INTERNAL_ERROR:'Error interno del servidor',
+    CORS_ORIGIN_NOT_ALLOWED:'Origen no permitido por CORS',
+    UNKNOWN_FIELDS:'El cuerpo de la peticion contiene campos no permitidos',
+    EMPTY_UPDATE:'Debes enviar al menos un campo a actualizar',
+    INVALID_ID:'ID no valido',
+    INVALID_PAGE:'Pagina no valida',
+    INVALID_LIMIT:'Limite no valido',
+    INVALID_STATUS:'Estado no valido',
+    INVALID_QUANTITY:'Cantidad no valida',
+    INVALID_DESCRIPTION:'Descripcion no valida',
+    DESCRIPTION_TOO_LONG:'La descripcion es demasiado larga',
+
+    // Autenticacion
+    TOKEN_MISSING:'Token no proporcionado',
+    TOKEN_INVALID:'Token no valido',
+    INVALID_CREDENTIALS:'Credenciales no validas',
+    USER_NAME_REQUIRED:'El nombre no puede ir vacio',
+    INVALID_EMAIL:'Email no valido',
+    EMAIL_TAKEN:'El email ya esta registrado',
+    PASSWORD_TOO_SHORT:'El password debe tener al menos {min} caracteres',
+    PASSWORD_REQUIRED:'El password no puede ir vacio',
+    INVALID_USER:'Usuario no valido',
+
+    // Productos
+    PRODUCT_NOT_FOUND:'Producto no encontrado',
+    PRODUCT_NOT_IN_TRASH:'Producto no encontrado en la papelera',
+    PRODUCT_DELETED:'Producto eliminado',
+    PRODUCT_PURGED:'Producto eliminado permanentemente',
+    INVALID_PRODUCT:'Producto no valido',
+    PRODUCT_NAME_REQUIRED:'El nombre del producto no puede ir vacio',
+    PRICE_REQUIRED:'El precio del producto no puede ir vacio',
+    INVALID_PRICE:'Precio no valido',
+    PRICE_DECIMALS:'El precio admite como maximo {decimals} decimales en {currency}',
+    INVALID_MIN_PRICE:'Precio minimo no valido',
+    INVALID_MAX_PRICE:'Precio maximo no valido',
+    INVALID_PRICE_RANGE:'El precio maximo debe ser mayor al precio minimo',
+    INVALID_AVAILABILITY:'Disponibilidad no valida',
+    AVAILABILITY_REQUIRED:'Debes de actualizar el estado del producto',
+    INVALID_SORT:'Orden no valido',
+    INVALID_INCLUDE:'Relacion no valida, usa {includes}',
+    INVALID_SEARCH:'Busqueda no valida',
+    SEARCH_TOO_LONG:'La busqueda es demasiado larga',
+    SEARCH_EMPTY:'La busqueda no puede ir vacia',
+    INVALID_HISTORY_FIELD:'Campo no valido',
+    INVALID_FROM_DATE:'Fecha inicial no valida',
+    INVALID_TO_DATE:'Fecha final no valida',
+
+    // Monedas y tipos de cambio
+    INVALID_CURRENCY:'Moneda no valida, usa un codigo ISO 4217 como USD',
+    INVALID_BASE_CURRENCY:'Moneda base no valida',
+    INVALID_QUOTE_CURRENCY:'Moneda destino no valida',
+    SAME_CURRENCIES:'Las monedas deben ser distintas',
+    INVALID_EXCHANGE_RATE:'Tipo de cambio no valido',
+    EXCHANGE_RATE_DECIMALS:'El tipo de cambio admite como maximo {max} decimales',
+    EXCHANGE_RATE_MISSING:'No hay tipo de cambio de {from} a {to}',
+    EXCHANGE_RATE_NOT_FOUND:'Tipo de cambio no encontrado',
+    EXCHANGE_RATE_DELETED:'Tipo de cambio eliminado',
+
+    // Categorias
+    CATEGORY_NOT_FOUND:'Categoria no encontrada',
+    CATEGORY_DELETED:'Categoria eliminada',
+    INVALID_CATEGORY:'Categoria no valida',
+    CATEGORY_NAME_REQUIRED:'El nombre de la categoria no puede ir vacio',
+    CATEGORY_NAME_TOO_LONG:'El nombre de la categoria es demasiado largo',
+    CATEGORY_NAME_TAKEN:'Ya existe una categoria con ese nombre',
+    CATEGORY_HAS_PRODUCTS:'La categoria tiene productos asociados',
+
+    // Stock
+    INVALID_STOCK_MOVEMENT_TYPE:'Tipo de movimiento no valido',
+    STOCK_REASON_REQUIRED:'El motivo del movimiento no puede ir vacio',
+    STOCK_REASON_TOO_LONG:'El motivo es demasiado largo',
+    INSUFFICIENT_STOCK:'Stock insuficiente',
+    INVALID_STOCK:'El stock debe ser un numero entero igual o mayor a 0',
+    AVAILABILITY_REQUIRES_STOCK:'Un producto sin stock no puede estar disponible',
+
+    // Importacion, exportacion y operaciones en lote
+    INVALID_FORMAT:'Formato no valido',
+    INVALID_CSV:'CSV no valido: {detail}',
+    IMPORT_LIST_EXPECTED:'Se esperaba una lista de productos',
+    IMPORT_SIZE:'La importacion debe tener entre 1 y {max} productos',
+    IMPORT_INVALID_ROWS:'La importacion contiene filas no validas',
+    INVALID_DRY_RUN:'dryRun no valido',
+    INVALID_BULK_MODE:'Modo no valido',
+    INVALID_BULK_OPERATION:'Operacion no valida',
+    BULK_SIZE:'El lote debe tener entre 1 y {max} operaciones',
+    BULK_INVALID_OPERATIONS:'El lote contiene operaciones no validas',
+    BULK_OPERATION_FAILED:'La operacion {index} fallo y no se aplico ningun cambio: {reason}',
+    INVALID_ADJUSTMENT_TYPE:'Tipo de ajuste no valido',
+    ADJUSTMENT_ZERO:'El ajuste no puede ser cero',
+    ADJUSTMENT_PERCENTAGE_TOO_LOW:'El porcentaje no puede bajar el precio a cero',
+    ADJUSTMENT_CURRENCY_REQUIRED:'Moneda no valida, los ajustes fijos deben indicar la moneda de los precios',
+    ADJUSTMENT_INVALID_PRICES:'El ajuste dejaria {count} productos con un precio no valido',
+
+    // Imagenes
+    IMAGE_NOT_FOUND:'Imagen no encontrada',
+    IMAGE_DELETED:'Imagen eliminada',
+    INVALID_IMAGE_ID:'ID de imagen no valido',
+    IMAGES_REQUIRED:'Debes enviar al menos una imagen',
+    INVALID_IMAGE:'El archivo no es una imagen valida',
+    IMAGE_FORMAT_NOT_ALLOWED:'Formato de imagen no permitido, usa JPEG, PNG o WebP',
+    IMAGE_TOO_LARGE:'Cada imagen puede pesar como maximo {kb} KB',
+    TOO_MANY_IMAGES_PER_UPLOAD:'Solo se pueden subir {max} imagenes a la vez',
+    TOO_MANY_PRODUCT_IMAGES:'Un producto puede tener como maximo {max} imagenes',
+    UNEXPECTED_IMAGE_FIELD:'Las imagenes se deben enviar en el campo "{field}"',
+    UPLOAD_FAILED:'No se pudo procesar el archivo: {detail}',
+    IMAGE_ORDER_REQUIRED:'Debes indicar el orden de las imagenes',
+    IMAGE_ORDER_MISMATCH:'Debes indicar todas las imagenes del producto una sola vez',
+
+    // Variantes
+    VARIANT_NOT_FOUND:'Variante no encontrada',
+    VARIANT_DELETED:'Variante eliminada',
+    INVALID_VARIANT_ID:'ID de variante no valido',
+    INVALID_SKU:'SKU no valido',
+    SKU_FORMAT:'El SKU solo admite letras, numeros, puntos y guiones',
+    SKU_TOO_LONG:'El SKU es demasiado largo',
+    SKU_TAKEN:'Ya existe una variante con ese SKU',
+    INVALID_VARIANT_OPTIONS:'Las opciones deben ser un objeto con hasta {max} atributos de texto, como {"talla": "M"}',
+    VARIANT_OPTIONS_TAKEN:'Ya existe una variante con esas opciones',
+    VARIANT_AVAILABILITY_LOCKED:'La disponibilidad de un producto con variantes depende de la de sus variantes',
+
+    // Pedidos
+    ORDER_NOT_FOUND:'Pedido no encontrado',
+    ORDER_ITEMS_SIZE:'El pedido debe tener entre 1 y {max} productos',
+    ORDER_DUPLICATE_PRODUCT:'Cada producto o variante solo puede aparecer una vez en el pedido',
+    ORDER_VARIANT_REQUIRED:'Un producto con variantes se pide indicando la variante',
+    ORDER_INVALID_TRANSITION:'Un pedido en estado {from} no puede pasar a {to}',
+    ORDER_PRODUCTS_UNAVAILABLE:'Productos no disponibles: {products}',
+    ORDER_MIXED_CURRENCIES:'Todos los productos del pedido deben tener la misma moneda',
+
+    // Webhooks
+    WEBHOOK_NOT_FOUND:'Webhook no encontrado',
+    WEBHOOK_DELETED:'Webhook eliminado',
+    INVALID_URL:'URL no valida',
+    URL_TOO_LONG:'La URL es demasiado larga',
+    WEBHOOK_EVENTS_REQUIRED:'Debes indicar al menos un evento',
+    INVALID_WEBHOOK_EVENT:'Evento no valido',
+    DELIVERY_NOT_FOUND:'Entrega no encontrada',
+    INVALID_DELIVERY_ID:'ID de entrega no valido',
+    DELIVERY_NOT_RETRYABLE:'Solo se pueden reintentar las entregas fallidas'
+}
+
+export default es
@@ -1,7 +1,43 @@
-import server from "./server";
-import colors from 'colors'
-const port = process.env.PORT || 5000
+import server,{connectDB} from "./server";
+import db from "./config/db";
+import config from "./config/env";
+import logger from "./utils/logger";
+import { markShuttingDown } from "./handlers/health";
+import { startWebhookWorker } from "./webhooks/dispatcher";
+const port = config.port
 
-server.listen(port,()=>{
-    console.log(colors.magenta.cyan(`REST API funcionando en el puerto ${port}`))
-})
\ No newline at end of file
+const start=async()=>{
+    if(!(await connectDB())){
+        logger.fatal('No fue posible conectar a la base de datos, deteniendo el servidor')
+        process.exit(1)
+    }
+
+    const httpServer=server.listen(port,()=>{
+        logger.info(`REST API funcionando en el puerto ${port}`)
+    })
+
+    const stopWebhookWorker=startWebhookWorker()
+
+    const shutdown=(signal:string)=>{
+        logger.info(`${signal} recibido, cerrando el servidor...`)
+        markShuttingDown()
+        stopWebhookWorker()
+        // Si las peticiones en curso no terminan a tiempo se fuerza la salida
+        setTimeout(()=>{
+            logger.error('Las conexiones no se cerraron a tiempo, forzando la salida')
+            process.exit(1)
+        },config.shutdownTimeout).unref()
+
+        httpServer.close(async()=>{
+            await db.close()
+            logger.info('Servidor detenido')
+            process.exit(0)
+        })
+        httpServer.closeIdleConnections()
+    }
+
+    process.once('SIGTERM',shutdown)
+    process.once('SIGINT',shutdown)
+}
+
+start()
@@ -0,0 +1,71 @@
+import express, { Router } from 'express'
+import request from 'supertest'
+import { createMetrics } from '..'
+import { createResponseCache } from '../../cache'
+import { createMemoryStore } from '../../cache/memory'
+import db from '../../config/db'
+import { errorHandler, notFoundHandler } from '../../middleware'
+import { NotFoundError } from '../../errors'
+import Product from '../../models/Product.model'
+
+const createApp=()=>{
+    const cache=createResponseCache(createMemoryStore(10))
+    const metrics=createMetrics(db,cache)
+    const router=Router()
+    router.get('/:id',cache.route('product',60),(req,res)=>{
+        if(req.params.id==='404'){
+            throw new NotFoundError('PRODUCT_NOT_FOUND')
+        }
+        res.json({data:{id:req.params.id}})
+    })
+    const app = express()
+    app.get('/metrics',metrics.getMetrics)
+    app.use(metrics.trackRequests)
+    app.use('/api/products',router)
+    app.use(notFoundHandler)
+    app.use(errorHandler)
+    return app
+}
+
+describe('createMetrics',()=>{
+    afterEach(()=>{
+        jest.restoreAllMocks()
+    })
+
+    it('should count the requests by route template and status',async()=>{
+        jest.spyOn(Product,'count').mockResolvedValue(0)
+        const app=createApp()
+        await request(app).get('/api/products/1')
+        await request(app).get('/api/products/2?currency=EUR')
+        await request(app).get('/api/products/404')
+        await request(app).get('/nada')
+
+        const response = await request(app).get('/metrics')
+        expect(response.status).toBe(200)
+        expect(response.headers['content-type']).toMatch(/text\/plain/)
+        expect(response.text).toContain('http_requests_total{method="GET",route="/api/products/:id",status="200"} 2')
+        expect(response.text).toContain('http_requests_total{method="GET",route="/api/products/:id",status="404"} 1')
+        expect(response.text).toContain('http_requests_total{method="GET",route="unmatched",status="404"} 1')
+        expect(response.text).toContain('http_request_duration_seconds_count{method="GET",route="/api/products/:id",status="200"} 2')
+        expect(response.text).not.toContain('route="/metrics"')
+    })
+    it('should publish the product counts and the cache counters',async()=>{
+        jest.spyOn(Product,'count').mockImplementation(async(options?:{where?:object})=>options?.where && 'availability' in options.where ? 3 : 5)
+        const app=createApp()
+        await request(app).get('/api/products/1')
+        await request(app).get('/api/products/1')
+
+        const response = await request(app).get('/metrics')
+        expect(response.text).toContain('products_total 5')
+        expect(response.text).toContain('products_available_total 3')
+        expect(response.text).toContain('cache_hits_total{route="product"} 1')
+        expect(response.text).toContain('cache_misses_total{route="product"} 1')
+        expect(response.text).toMatch(/db_pool_connections\{state="max"\} \d+/)
+    })
+    it('should keep publishing metrics when the database is down',async()=>{
+        jest.spyOn(Product,'count').mockRejectedValue(new Error('error de la base de datos'))
+        const response = await request(createApp()).get('/metrics')
+        expect(response.status).toBe(200)
+        expect(response.text).toContain('http_requests_total')
+    })
+})
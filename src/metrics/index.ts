@@ -0,0 +1,144 @@
+import { Request, RequestHandler } from 'express'
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client'
+import type { Sequelize } from 'sequelize-typescript'
+import type { ResponseCache } from '../cache'
+import { WhereOptions } from 'sequelize'
+import Product from '../models/Product.model'
+import logger from '../utils/logger'
+
+type PoolStats={
+    size:number
+    available:number
+    using:number
+    waiting:number
+    maxSize:number
+}
+
+// Las rutas se agrupan por plantilla (/api/products/:id) para no crear una serie por cada URL
+const routeTemplate=(req:Request)=>{
+    if(!req.route){
+        return 'unmatched'
+    }
+    // req.baseUrl ya no es fiable si la respuesta la envia el errorHandler, asi que el prefijo se toma de la URL
+    const routeSegments=String(req.route.path).split('/').filter(Boolean)
+    const urlSegments=req.originalUrl.split('?')[0].split('/').filter(Boolean)
+    return '/'+[...urlSegments.slice(0,urlSegments.length-routeSegments.length),...routeSegments].join('/')
+}
+
+// Si la base de datos no responde el resto de metricas se sigue publicando con el ultimo valor conocido
+const countProducts=async(gauge:Gauge,where:WhereOptions={})=>{
+    try {
+        gauge.set(await Product.count({where}))
+    } catch (error) {
+        logger.warn({err:error},'No se pudieron contar los productos para las metricas')
+    }
+}
+
+export const createMetrics=(db:Sequelize,cache:ResponseCache)=>{
+    const registry=new Registry()
+    collectDefaultMetrics({register:registry})
+
+    const requests=new Counter({
+        name:'http_requests_total',
+        help:'Peticiones HTTP atendidas',
+        labelNames:['method','route','status'],
+        registers:[registry]
+    })
+    const requestDuration=new Histogram({
+        name:'http_request_duration_seconds',
+        help:'Duracion de las peticiones HTTP',
+        labelNames:['method','route','status'],
+        buckets:[0.005,0.01,0.025,0.05,0.1,0.25,0.5,1,2.5,5],
+        registers:[registry]
+    })
+    const queryDuration=new Histogram({
+        name:'db_query_duration_seconds',
+        help:'Duracion de las consultas a la base de datos',
+        labelNames:['type'],
+        buckets:[0.001,0.005,0.01,0.025,0.05,0.1,0.25,0.5,1],
+        registers:[registry]
+    })
+    new Gauge({
+        name:'db_pool_connections',
+        help:'Conexiones del pool de Sequelize por estado',
+        labelNames:['state'],
+        registers:[registry],
+        collect(){
+            const pool=(db.connectionManager as unknown as {pool?:PoolStats}).pool
+            if(!pool){
+                return
+            }
+            this.set({state:'open'},pool.size)
+            this.set({state:'idle'},pool.available)
+            this.set({state:'in_use'},pool.using)
+            this.set({state:'waiting'},pool.waiting)
+            this.set({state:'max'},pool.maxSize)
+        }
+    })
+    new Gauge({
+        name:'products_total',
+        help:'Productos en el catalogo, sin contar la papelera',
+        registers:[registry],
+        async collect(){
+            await countProducts(this)
+        }
+    })
+    new Gauge({
+        name:'products_available_total',
+        help:'Productos disponibles para la venta',
+        registers:[registry],
+        async collect(){
+            await countProducts(this,{availability:true})
+        }
+    })
+    // Los contadores viven en la cache; aqui solo se copian al leer las metricas
+    new Counter({
+        name:'cache_hits_total',
+        help:'Respuestas servidas desde la cache',
+        labelNames:['route'],
+        registers:[registry],
+        collect(){
+            this.reset()
+            Object.entries(cache.stats()).forEach(([route,{hits}])=>this.inc({route},hits))
+        }
+    })
+    new Counter({
+        name:'cache_misses_total',
+        help:'Respuestas que no estaban en la cache',
+        labelNames:['route'],
+        registers:[registry],
+        collect(){
+            this.reset()
+            Object.entries(cache.stats()).forEach(([route,{misses}])=>this.inc({route},misses))
+        }
+    })
+
+    const startedQueries=new WeakMap<object,() => number>()
+    db.addHook('beforeQuery',(options,query)=>{
+        startedQueries.set(query,queryDuration.startTimer({type:options.type ?? 'RAW'}))
+    })
+    db.addHook('afterQuery',(options,query)=>{
+        startedQueries.get(query)?.()
+    })
+
+    const trackRequests:RequestHandler=(req,res,next)=>{
+        const end=requestDuration.startTimer()
+        res.on('finish',()=>{
+            const labels={method:req.method,route:routeTemplate(req),status:String(res.statusCode)}
+            requests.inc(labels)
+            end(labels)
+        })
+        next()
+    }
+
+    const getMetrics:RequestHandler=async(req,res,next)=>{
+        try {
+            const metrics = await registry.metrics()
+            res.type(registry.contentType).send(metrics)
+        } catch (error) {
+            next(error)
+        }
+    }
+
+    return {registry,trackRequests,getMetrics}
+}
@@ -0,0 +1,43 @@
+import express from 'express'
+import request from 'supertest'
+import { createRateLimiters } from '../rateLimit'
+import { errorHandler } from '..'
+import { httpLogger } from '../logger'
+import { generateJWT } from '../../utils/jwt'
+
+const createApp=()=>{
+    const app = express()
+    app.use(httpLogger)
+    app.use(createRateLimiters(undefined,{windowMs:60000,readMax:3,writeMax:1}))
+    app.get('/',(req,res)=>{res.json({data:'ok'})})
+    app.post('/',(req,res)=>{res.status(201).json({data:'ok'})})
+    app.use(errorHandler)
+    return app
+}
+
+describe('createRateLimiters',()=>{
+    it('should send the standard RateLimit headers',async()=>{
+        const response = await request(createApp()).get('/')
+        expect(response.status).toBe(200)
+        expect(response.headers['ratelimit-limit']).toBe('3')
+        expect(response.headers['ratelimit-remaining']).toBe('2')
+        expect(response.headers).toHaveProperty('ratelimit-reset')
+    })
+    it('should apply a stricter limit to write routes',async()=>{
+        const app = createApp()
+        await request(app).post('/')
+        const response = await request(app).post('/')
+        expect(response.status).toBe(429)
+        expect(response.headers).toHaveProperty('retry-after')
+        expect(response.body.error.code).toBe('TOO_MANY_REQUESTS')
+
+        const read = await request(app).get('/')
+        expect(read.status).toBe(200)
+    })
+    it('should count authenticated users separately from their IP',async()=>{
+        const app = createApp()
+        await request(app).post('/')
+        const response = await request(app).post('/').set('Authorization',`Bearer ${generateJWT({id:1,role:'editor'})}`)
+        expect(response.status).toBe(201)
+    })
+})
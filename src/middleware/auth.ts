@@ -0,0 +1,40 @@
+import {Request,Response,NextFunction} from 'express'
+import { ForbiddenError, UnauthorizedError } from '../errors'
+import type { UserRole } from '../models/User.model'
+import { AuthPayload, verifyJWT } from '../utils/jwt'
+import { getRequestContext } from '../utils/requestContext'
+
+declare global{
+    namespace Express{
+        interface Request{
+            user?:AuthPayload
+        }
+    }
+}
+
+export const authenticate=(req:Request,res:Response,next:NextFunction)=>{
+    const[scheme,token]=(req.headers.authorization ?? '').split(' ')
+    if(scheme!=='Bearer' || !token){
+        next(new UnauthorizedError('TOKEN_MISSING'))
+        return
+    }
+    try {
+        req.user=verifyJWT(token)
+        getRequestContext().userId=req.user.id
+        next()
+    } catch (error) {
+        next(new UnauthorizedError('TOKEN_INVALID'))
+    }
+}
+
+export const authorize=(...roles:UserRole[])=>{
+    return (req:Request,res:Response,next:NextFunction)=>{
+        if(!req.user || !roles.includes(req.user.role)){
+            next(new ForbiddenError())
+            return
+        }
+        next()
+    }
+}
+
+export const canWrite=[authenticate,authorize('admin','editor')]
@@ -1,10 +1,61 @@
-import {Request,Response,NextFunction} from 'express'
+import {Request,Response,NextFunction,RequestHandler,ErrorRequestHandler} from 'express'
 import { validationResult } from 'express-validator'
+import { ForeignKeyConstraintError, OptimisticLockError, UniqueConstraintError } from 'sequelize'
+import { AppError, ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from '../errors'
+import { message, resolveLocale } from '../i18n'
+
 export const handleInputErrors=(req:Request,res:Response,next:NextFunction)=>{
     let errores=validationResult(req)
     if(!errores.isEmpty()){
-        res.status(400).json({errores:errores.array()})
+        next(new ValidationError(errores.array()))
         return
     }
     next()
 }
+
+export const asyncHandler=(handler:(req:Request,res:Response,next:NextFunction)=>Promise<unknown>):RequestHandler=>{
+    return (req,res,next)=>{
+        handler(req,res,next).catch(next)
+    }
+}
+
+export const notFoundHandler=(req:Request,res:Response,next:NextFunction)=>{
+    next(new NotFoundError(message('ROUTE_NOT_FOUND',{method:req.method,url:req.originalUrl})))
+}
+
+export const toAppError=(error:unknown):AppError=>{
+    if(error instanceof AppError){
+        return error
+    }
+    if(error instanceof UniqueConstraintError){
+        return new ConflictError('DUPLICATE_RECORD')
+    }
+    if(error instanceof OptimisticLockError){
+        return new PreconditionFailedError()
+    }
+    if(error instanceof ForeignKeyConstraintError){
+        return new ConflictError('RELATED_RECORDS')
+    }
+    // Errores de body-parser (JSON mal formado, cuerpo demasiado grande...)
+    const status=(error as {status?:number})?.status
+    if(status===413){
+        return new AppError(413,'PAYLOAD_TOO_LARGE','PAYLOAD_TOO_LARGE')
+    }
+    if(typeof status==='number' && status>=400 && status<500){
+        return new AppError(status,'BAD_REQUEST',message('BAD_REQUEST',{detail:(error as Error).message}))
+    }
+    return new AppError(500,'INTERNAL_ERROR','INTERNAL_ERROR')
+}
+
+export const errorHandler:ErrorRequestHandler=(error,req,res,next)=>{
+    const appError=toAppError(error)
+    if(appError.statusCode>=500){
+        req.log.error({err:error},'Error no controlado')
+    }
+    if(res.headersSent){
+        next(error)
+        return
+    }
+    const locale=resolveLocale(req)
+    res.status(appError.statusCode).set('Content-Language',locale).json(appError.toJSON(locale))
+}
@@ -0,0 +1,12 @@
+import {Request,Response,NextFunction} from 'express'
+import { resolveLocale } from '../i18n'
+import { getRequestContext } from '../utils/requestContext'
+
+// Guarda el idioma de la peticion para que los mensajes de exito y de error se traduzcan
+export const detectLocale=(req:Request,res:Response,next:NextFunction)=>{
+    const locale=resolveLocale(req)
+    getRequestContext().locale=locale
+    res.set('Content-Language',locale)
+    res.vary('Accept-Language')
+    next()
+}
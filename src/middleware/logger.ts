@@ -0,0 +1,31 @@
+import { randomUUID } from 'node:crypto'
+import pinoHttp from 'pino-http'
+import logger from '../utils/logger'
+
+const REQUEST_ID_HEADER='X-Request-Id'
+const VALID_REQUEST_ID=/^[\w.:-]{1,128}$/
+
+export const httpLogger=pinoHttp({
+    logger,
+    genReqId(req,res){
+        const header=req.headers[REQUEST_ID_HEADER.toLowerCase()]
+        const id=typeof header==='string' && VALID_REQUEST_ID.test(header) ? header : randomUUID()
+        res.setHeader(REQUEST_ID_HEADER,id)
+        return id
+    },
+    customLogLevel(req,res,error){
+        if(error || res.statusCode>=500){
+            return 'error'
+        }
+        return res.statusCode>=400 ? 'warn' : 'info'
+    },
+    customAttributeKeys:{reqId:'requestId'},
+    quietReqLogger:true,
+    autoLogging:{
+        ignore:req=>['/health','/ready','/metrics'].includes(req.url ?? '')
+    },
+    serializers:{
+        req:req=>({method:req.method,url:req.url}),
+        res:res=>({statusCode:res.statusCode})
+    }
+})
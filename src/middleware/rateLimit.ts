@@ -0,0 +1,41 @@
+import {Request} from 'express'
+import rateLimit, { MemoryStore, Store } from 'express-rate-limit'
+import config from '../config/env'
+import { TooManyRequestsError } from '../errors'
+import { verifyJWT } from '../utils/jwt'
+
+// Cualquier Store de express-rate-limit (por ejemplo rate-limit-redis) puede sustituir a la memoria
+export type RateLimitStoreFactory=(name:string)=>Store
+
+export const memoryStore:RateLimitStoreFactory=()=>new MemoryStore()
+
+const READ_METHODS=['GET','HEAD','OPTIONS']
+
+// Los usuarios autenticados tienen su propio contador, el resto se agrupa por IP
+const clientKey=(req:Request)=>{
+    const[scheme,token]=(req.headers.authorization ?? '').split(' ')
+    if(scheme==='Bearer' && token){
+        try {
+            return `user:${verifyJWT(token).id}`
+        } catch (error) {
+            // Un token no valido cuenta contra la IP
+        }
+    }
+    return `ip:${req.ip}`
+}
+
+const createLimiter=(name:string,max:number,windowMs:number,store:Store,skip:(req:Request)=>boolean)=>rateLimit({
+    windowMs,
+    limit:max,
+    standardHeaders:'draft-6',
+    legacyHeaders:false,
+    store,
+    keyGenerator:req=>`${name}:${clientKey(req)}`,
+    skip,
+    handler:(req,res,next)=>next(new TooManyRequestsError())
+})
+
+export const createRateLimiters=(storeFactory:RateLimitStoreFactory=memoryStore,limits=config.rateLimit)=>[
+    createLimiter('read',limits.readMax,limits.windowMs,storeFactory('read'),req=>!READ_METHODS.includes(req.method)),
+    createLimiter('write',limits.writeMax,limits.windowMs,storeFactory('write'),req=>READ_METHODS.includes(req.method))
+]
@@ -0,0 +1,44 @@
+import { Request,Response,NextFunction } from 'express'
+import multer from 'multer'
+import config from '../config/env'
+import { AppError, ValidationError } from '../errors'
+import { message, Message, MessageCode } from '../i18n'
+import { IMAGE_TYPES } from '../utils/images'
+
+export const MAX_IMAGES_PER_UPLOAD=10
+
+const fileError=(field:string,msg:MessageCode | Message,value?:string)=>new ValidationError([{type:'field',location:'body',path:field,msg,value}])
+
+const toUploadError=(error:unknown,field:string)=>{
+    if(!(error instanceof multer.MulterError)){
+        return error
+    }
+    switch(error.code){
+        case 'LIMIT_FILE_SIZE':
+            return new AppError(413,'PAYLOAD_TOO_LARGE',message('IMAGE_TOO_LARGE',{kb:Math.floor(config.imageMaxSize/1024)}))
+        case 'LIMIT_FILE_COUNT':
+            return fileError(field,message('TOO_MANY_IMAGES_PER_UPLOAD',{max:MAX_IMAGES_PER_UPLOAD}))
+        case 'LIMIT_UNEXPECTED_FILE':
+            return fileError(error.field ?? field,message('UNEXPECTED_IMAGE_FIELD',{field}))
+        default:
+            return fileError(field,message('UPLOAD_FAILED',{detail:error.message}))
+    }
+}
+
+// Guarda en memoria las imagenes del campo indicado en req.files
+export const uploadImages=(field:string)=>{
+    const upload=multer({
+        storage:multer.memoryStorage(),
+        limits:{fileSize:config.imageMaxSize,files:MAX_IMAGES_PER_UPLOAD},
+        fileFilter:(req,file,callback)=>{
+            if(!IMAGE_TYPES.includes(file.mimetype)){
+                callback(fileError(field,'IMAGE_FORMAT_NOT_ALLOWED',file.originalname))
+                return
+            }
+            callback(null,true)
+        }
+    }).array(field,MAX_IMAGES_PER_UPLOAD)
+    return (req:Request,res:Response,next:NextFunction)=>{
+        upload(req,res,error=>next(error ? toUploadError(error,field) : undefined))
+    }
+}
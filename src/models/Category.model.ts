@@ -0,0 +1,31 @@
+import {Table,Column,Model,DataType,HasMany,AllowNull,Unique,AfterUpdate,AfterDestroy } from 'sequelize-typescript'
+import Product from './Product.model'
+import productCache from '../cache'
+
+@Table({
+    tableName:'categories'
+})
+
+class Category extends Model{
+    @AllowNull(false)
+    @Unique
+    @Column({
+        type:DataType.STRING(50)
+    })
+    declare name:string
+    @Column({
+        type:DataType.STRING(255)
+    })
+    declare description:string
+    @HasMany(()=>Product)
+    declare products:Product[]
+
+    // Los productos se devuelven con su categoria
+    @AfterUpdate
+    @AfterDestroy
+    static clearCache(category:Category,options){
+        productCache.invalidateAfterCommit(options)
+    }
+}
+
+export default Category
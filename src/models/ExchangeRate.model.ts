@@ -0,0 +1,64 @@
+import {Table,Column,Model,DataType,AllowNull,AfterSave,AfterUpsert,AfterDestroy } from 'sequelize-typescript'
+import { Op } from 'sequelize'
+import { decimalGetter } from '../utils/money'
+import productCache from '../cache'
+
+// Cuantas unidades de la moneda `quote` vale una unidad de la moneda `base`
+@Table({
+    tableName:'exchange_rates',
+    indexes:[{unique:true,fields:['base','quote']}]
+})
+
+class ExchangeRate extends Model{
+    @AllowNull(false)
+    @Column({
+        type:DataType.CHAR(3)
+    })
+    declare base:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.CHAR(3)
+    })
+    declare quote:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.DECIMAL(18,8),
+        get:decimalGetter('rate')
+    })
+    declare rate:number
+
+    // Tipo de cambio de cada moneda a la moneda destino, directo o inverso
+    static async findRates(currencies:string[],target:string){
+        const rates=new Map<string,number>([[target,1]])
+        const pending=[...new Set(currencies)].filter(currency=>currency!==target)
+        if(pending.length===0){
+            return rates
+        }
+        const found = await ExchangeRate.findAll({
+            where:{
+                [Op.or]:[
+                    {base:pending,quote:target},
+                    {base:target,quote:pending}
+                ]
+            }
+        })
+        for(const exchangeRate of found){
+            if(exchangeRate.quote===target){
+                rates.set(exchangeRate.base,exchangeRate.rate)
+            }else if(!rates.has(exchangeRate.quote)){
+                rates.set(exchangeRate.quote,1/exchangeRate.rate)
+            }
+        }
+        return rates
+    }
+
+    // Los precios convertidos (?currency=) dependen de los tipos de cambio
+    @AfterSave
+    @AfterUpsert
+    @AfterDestroy
+    static clearCache(_:unknown,options){
+        productCache.invalidateAfterCommit(options)
+    }
+}
+
+export default ExchangeRate
@@ -0,0 +1,50 @@
+import {Table,Column,Model,DataType,AllowNull,Default,HasMany } from 'sequelize-typescript'
+import OrderItem from './OrderItem.model'
+import { decimalGetter } from '../utils/money'
+
+export const ORDER_STATUSES=['pending','paid','shipped','cancelled'] as const
+export type OrderStatus=typeof ORDER_STATUSES[number]
+
+// Estados a los que puede pasar un pedido desde cada estado
+export const ORDER_TRANSITIONS:Record<OrderStatus,OrderStatus[]>={
+    pending:['paid','cancelled'],
+    paid:['shipped','cancelled'],
+    shipped:[],
+    cancelled:[]
+}
+
+@Table({
+    tableName:'orders'
+})
+
+class Order extends Model{
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare userId:number
+    @Default('pending')
+    @Column({
+        type:DataType.ENUM(...ORDER_STATUSES)
+    })
+    declare status:OrderStatus
+    @AllowNull(false)
+    @Column({
+        type:DataType.DECIMAL(14,4),
+        get:decimalGetter('total')
+    })
+    declare total:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.CHAR(3)
+    })
+    declare currency:string
+    @HasMany(()=>OrderItem)
+    declare items:OrderItem[]
+
+    canTransitionTo(status:OrderStatus){
+        return ORDER_TRANSITIONS[this.status].includes(status)
+    }
+}
+
+export default Order
@@ -0,0 +1,64 @@
+import {Table,Column,Model,DataType,AllowNull,ForeignKey,BelongsTo } from 'sequelize-typescript'
+import Order from './Order.model'
+import Product from './Product.model'
+import ProductVariant from './ProductVariant.model'
+import { decimalGetter } from '../utils/money'
+
+// Guarda el nombre, el SKU y el precio del producto al momento de la compra
+@Table({
+    tableName:'order_items',
+    timestamps:false
+})
+
+class OrderItem extends Model{
+    @ForeignKey(()=>Order)
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare orderId:number
+    @BelongsTo(()=>Order,{onDelete:'CASCADE'})
+    declare order:Order
+    @ForeignKey(()=>Product)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare productId:number | null
+    @BelongsTo(()=>Product,{onDelete:'SET NULL'})
+    declare product:Product
+    @ForeignKey(()=>ProductVariant)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare variantId:number | null
+    @BelongsTo(()=>ProductVariant,{onDelete:'SET NULL'})
+    declare variant:ProductVariant
+    @Column({
+        type:DataType.STRING(64)
+    })
+    declare sku:string | null
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(100)
+    })
+    declare productName:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.DECIMAL(14,4),
+        get:decimalGetter('unitPrice')
+    })
+    declare unitPrice:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare quantity:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.DECIMAL(14,4),
+        get:decimalGetter('subtotal')
+    })
+    declare subtotal:number
+}
+
+export default OrderItem
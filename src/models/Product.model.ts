@@ -1,7 +1,40 @@
-import {Table,Column,Model,DataType,Default } from 'sequelize-typescript'
+import {Table,Column,Model,DataType,Default,ForeignKey,BelongsTo,HasMany,DeletedAt,BeforeCreate,AfterCreate,AfterUpdate,AfterSave,BeforeDestroy,AfterDestroy,AfterRestore } from 'sequelize-typescript'
+import type { Transaction } from 'sequelize'
+import Category from './Category.model'
+import StockMovement from './StockMovement.model'
+import ProductImage from './ProductImage.model'
+import ProductVariant from './ProductVariant.model'
+import ProductAudit, { ProductAuditAction } from './ProductAudit.model'
+import config from '../config/env'
+import { getRequestContext } from '../utils/requestContext'
+import { decimalGetter } from '../utils/money'
+import { publishEvent } from '../webhooks/dispatcher'
+import productCache from '../cache'
+import type { WebhookEvent } from './WebhookSubscription.model'
+
+const AUDITED_FIELDS=['name','description','price','currency','availability','stock','categoryId']
+
+const pickAudited=(values:Record<string,unknown>,fields=AUDITED_FIELDS)=>
+    Object.fromEntries(fields.map(field=>[field,values[field] ?? null]))
+
+const audit=(product:Product,action:ProductAuditAction,oldValues:Record<string,unknown> | null,newValues:Record<string,unknown> | null,options:{transaction?:Transaction | null})=>{
+    return ProductAudit.create({
+        productId:product.id,
+        action,
+        oldValues,
+        newValues,
+        userId:getRequestContext().userId ?? null
+    },{transaction:options.transaction})
+}
+
+const notify=(event:WebhookEvent,product:Product,options:{transaction?:Transaction | null})=>{
+    return publishEvent(event,product.toJSON(),options.transaction)
+}
 
 @Table({
-    tableName:'products'
+    tableName:'products',
+    paranoid:true,
+    version:true
 })
 
 class Product extends Model{
@@ -10,14 +43,135 @@ class Product extends Model{
     })
     declare name:string
     @Column({
-        type: DataType.FLOAT
+        type:DataType.TEXT
+    })
+    declare description:string | null
+    @Column({
+        type:DataType.DECIMAL(14,4),
+        get:decimalGetter('price')
     })
     declare price:number
+    @Default(()=>config.defaultCurrency)
+    @Column({
+        type:DataType.CHAR(3)
+    })
+    declare currency:string
     @Default(true)
     @Column({
         type:DataType.BOOLEAN
     })
     declare availability:boolean
+    @Default(0)
+    @Column({
+        type:DataType.INTEGER,
+        validate:{min:0}
+    })
+    declare stock:number
+    @ForeignKey(()=>Category)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare categoryId:number
+    @BelongsTo(()=>Category,{onDelete:'RESTRICT'})
+    declare category:Category
+    @HasMany(()=>StockMovement)
+    declare stockMovements:StockMovement[]
+    @HasMany(()=>ProductImage)
+    declare images:ProductImage[]
+    @HasMany(()=>ProductVariant)
+    declare variants:ProductVariant[]
+    @DeletedAt
+    declare deletedAt:Date | null
+    declare version:number
+
+    // Un producto nuevo sin stock no esta disponible; con stock lo esta salvo que se cree como no disponible
+    @BeforeCreate
+    static deriveAvailability(product:Product){
+        product.availability=product.stock>0 && product.availability!==false
+    }
+
+    // El stock con el que se crea el producto queda en el historial de movimientos
+    @AfterCreate
+    static async recordInitialStock(product:Product,options){
+        if(product.stock===0){
+            return
+        }
+        await StockMovement.create({
+            productId:product.id,
+            type:'increase',
+            quantity:product.stock,
+            reason:'Stock inicial',
+            stockAfter:product.stock,
+            userId:getRequestContext().userId ?? null
+        },{transaction:options.transaction})
+    }
+
+    @AfterCreate
+    static async auditCreate(product:Product,options){
+        await audit(product,'create',null,pickAudited(product.get()),options)
+        await notify('product.created',product,options)
+    }
+
+    @AfterUpdate
+    static async auditUpdate(product:Product,options){
+        const fields=AUDITED_FIELDS.filter(field=>product.changed(field as keyof Product))
+        if(fields.length===0){
+            return
+        }
+        const oldValues=Object.fromEntries(fields.map(field=>{
+            const value=product.previous(field as keyof Product) ?? null
+            return [field,field==='price' && value!==null ? Number(value) : value]
+        }))
+        const action=fields.length===1 && fields[0]==='availability' ? 'availability' : 'update'
+        await audit(product,action,oldValues,pickAudited(product.get(),fields),options)
+    }
+
+    @AfterUpdate
+    static async notifyUpdate(product:Product,options){
+        const fields=AUDITED_FIELDS.filter(field=>product.changed(field as keyof Product))
+        if(fields.includes('availability')){
+            await notify('product.availability_changed',product,options)
+        }
+        if(fields.some(field=>field!=='availability')){
+            await notify('product.updated',product,options)
+        }
+    }
+
+    // La papelera conserva las imagenes; solo se eliminan al borrar el producto definitivamente
+    @BeforeDestroy
+    static async destroyImages(product:Product,options){
+        if(!options.force){
+            return
+        }
+        await ProductImage.destroy({
+            where:{productId:product.id},
+            individualHooks:true,
+            transaction:options.transaction
+        })
+    }
+
+    @AfterDestroy
+    static async auditDestroy(product:Product,options){
+        await audit(product,options.force ? 'purge' : 'delete',pickAudited(product.get()),null,options)
+        // Un producto que ya estaba en la papelera se notifico al borrarlo
+        if(!options.force){
+            await notify('product.deleted',product,options)
+        }
+    }
+
+    @AfterRestore
+    static async auditRestore(product:Product,options){
+        await audit(product,'restore',null,pickAudited(product.get()),options)
+        await notify('product.restored',product,options)
+    }
+
+    // Imagenes y variantes tambien guardan el producto, asi que cualquier cambio vacia la cache
+    @AfterSave
+    @AfterDestroy
+    @AfterRestore
+    static clearCache(product:Product,options){
+        productCache.invalidateAfterCommit(options)
+    }
 }
 
-export default Product
\ No newline at end of file
+export default Product
@@ -0,0 +1,38 @@
+import {Table,Column,Model,DataType,AllowNull,Index } from 'sequelize-typescript'
+
+export const PRODUCT_AUDIT_ACTIONS=['create','update','availability','delete','restore','purge'] as const
+export type ProductAuditAction=typeof PRODUCT_AUDIT_ACTIONS[number]
+
+// Sin llave foranea: el historial se conserva aunque el producto se elimine permanentemente
+@Table({
+    tableName:'product_audits',
+    updatedAt:false
+})
+
+class ProductAudit extends Model{
+    @Index
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare productId:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.ENUM(...PRODUCT_AUDIT_ACTIONS)
+    })
+    declare action:ProductAuditAction
+    @Column({
+        type:DataType.JSONB
+    })
+    declare oldValues:Record<string,unknown> | null
+    @Column({
+        type:DataType.JSONB
+    })
+    declare newValues:Record<string,unknown> | null
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare userId:number | null
+}
+
+export default ProductAudit
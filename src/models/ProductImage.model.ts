@@ -0,0 +1,79 @@
+import {Table,Column,Model,DataType,AllowNull,Default,ForeignKey,BelongsTo,AfterDestroy } from 'sequelize-typescript'
+import Product from './Product.model'
+import storage from '../storage'
+
+@Table({
+    tableName:'product_images'
+})
+
+class ProductImage extends Model{
+    @ForeignKey(()=>Product)
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare productId:number
+    @BelongsTo(()=>Product,{onDelete:'CASCADE'})
+    declare product:Product
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(255)
+    })
+    declare key:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(255)
+    })
+    declare thumbnailKey:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(50)
+    })
+    declare contentType:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare size:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare width:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare height:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare position:number
+    @Default(false)
+    @Column({
+        type:DataType.BOOLEAN
+    })
+    declare isPrimary:boolean
+
+    // Los archivos se borran cuando la transaccion se confirma, por si se revierte
+    @AfterDestroy
+    static async removeFiles(image:ProductImage,options){
+        const remove=()=>Promise.all([storage.remove(image.key),storage.remove(image.thumbnailKey)])
+        if(options.transaction){
+            options.transaction.afterCommit(remove)
+            return
+        }
+        await remove()
+    }
+
+    toJSON(){
+        return {
+            ...super.toJSON(),
+            url:storage.url(this.key),
+            thumbnailUrl:storage.url(this.thumbnailKey)
+        }
+    }
+}
+
+export default ProductImage
@@ -0,0 +1,44 @@
+import {Table,Column,Model,DataType,AllowNull,Default,ForeignKey,BelongsTo,Unique } from 'sequelize-typescript'
+import Product from './Product.model'
+import { decimalGetter } from '../utils/money'
+
+@Table({
+    tableName:'product_variants'
+})
+
+class ProductVariant extends Model{
+    @ForeignKey(()=>Product)
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare productId:number
+    @BelongsTo(()=>Product,{onDelete:'CASCADE'})
+    declare product:Product
+    @Unique
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(64)
+    })
+    declare sku:string
+    // Atributos que distinguen la variante, por ejemplo {"talla": "M", "color": "Negro"}
+    @AllowNull(false)
+    @Default({})
+    @Column({
+        type:DataType.JSONB
+    })
+    declare options:Record<string,string>
+    // Sin precio propio, la variante se vende al precio (y en la moneda) del producto
+    @Column({
+        type:DataType.DECIMAL(14,4),
+        get:decimalGetter('price')
+    })
+    declare price:number | null
+    @Default(true)
+    @Column({
+        type:DataType.BOOLEAN
+    })
+    declare availability:boolean
+}
+
+export default ProductVariant
@@ -0,0 +1,47 @@
+import {Table,Column,Model,DataType,AllowNull,ForeignKey,BelongsTo } from 'sequelize-typescript'
+import Product from './Product.model'
+
+export const STOCK_MOVEMENT_TYPES=['increase','decrease'] as const
+export type StockMovementType=typeof STOCK_MOVEMENT_TYPES[number]
+
+@Table({
+    tableName:'stock_movements',
+    updatedAt:false
+})
+
+class StockMovement extends Model{
+    @ForeignKey(()=>Product)
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare productId:number
+    @BelongsTo(()=>Product,{onDelete:'CASCADE'})
+    declare product:Product
+    @AllowNull(false)
+    @Column({
+        type:DataType.ENUM(...STOCK_MOVEMENT_TYPES)
+    })
+    declare type:StockMovementType
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare quantity:number
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(255)
+    })
+    declare reason:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare stockAfter:number
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare userId:number
+}
+
+export default StockMovement
@@ -0,0 +1,57 @@
+import {Table,Column,Model,DataType,Default,AllowNull,Unique,BeforeSave,DefaultScope,Scopes } from 'sequelize-typescript'
+import bcrypt from 'bcryptjs'
+
+export const USER_ROLES=['admin','editor','viewer'] as const
+export type UserRole=typeof USER_ROLES[number]
+
+@DefaultScope(()=>({
+    attributes:{exclude:['password']}
+}))
+@Scopes(()=>({
+    withPassword:{attributes:{include:['password']}}
+}))
+@Table({
+    tableName:'users'
+})
+
+class User extends Model{
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(100)
+    })
+    declare name:string
+    @AllowNull(false)
+    @Unique
+    @Column({
+        type:DataType.STRING(100)
+    })
+    declare email:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(60)
+    })
+    declare password:string
+    @Default('viewer')
+    @Column({
+        type:DataType.ENUM(...USER_ROLES)
+    })
+    declare role:UserRole
+
+    @BeforeSave
+    static async hashPassword(user:User){
+        if(user.changed('password')){
+            user.password=await bcrypt.hash(user.password,10)
+        }
+    }
+
+    checkPassword(password:string){
+        return bcrypt.compare(password,this.password)
+    }
+
+    toJSON(){
+        const{password,...values}=super.toJSON()
+        return values
+    }
+}
+
+export default User
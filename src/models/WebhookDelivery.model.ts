@@ -0,0 +1,58 @@
+import {Table,Column,Model,DataType,Default,AllowNull,ForeignKey,BelongsTo } from 'sequelize-typescript'
+import WebhookSubscription, { WebhookEvent } from './WebhookSubscription.model'
+
+export const WEBHOOK_DELIVERY_STATUSES=['pending','succeeded','failed'] as const
+export type WebhookDeliveryStatus=typeof WEBHOOK_DELIVERY_STATUSES[number]
+
+@Table({
+    tableName:'webhook_deliveries'
+})
+
+class WebhookDelivery extends Model{
+    @ForeignKey(()=>WebhookSubscription)
+    @AllowNull(false)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare subscriptionId:number
+    @BelongsTo(()=>WebhookSubscription,{onDelete:'CASCADE'})
+    declare subscription:WebhookSubscription
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(50)
+    })
+    declare event:WebhookEvent
+    @AllowNull(false)
+    @Column({
+        type:DataType.JSONB
+    })
+    declare payload:Record<string,unknown>
+    @Default('pending')
+    @Column({
+        type:DataType.ENUM(...WEBHOOK_DELIVERY_STATUSES)
+    })
+    declare status:WebhookDeliveryStatus
+    @Default(0)
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare attempts:number
+    @Column({
+        type:DataType.INTEGER
+    })
+    declare responseStatus:number | null
+    @Column({
+        type:DataType.TEXT
+    })
+    declare error:string | null
+    @Column({
+        type:DataType.DATE
+    })
+    declare nextAttemptAt:Date | null
+    @Column({
+        type:DataType.DATE
+    })
+    declare deliveredAt:Date | null
+}
+
+export default WebhookDelivery
@@ -0,0 +1,49 @@
+import {Table,Column,Model,DataType,Default,AllowNull,HasMany,DefaultScope,Scopes } from 'sequelize-typescript'
+import { randomBytes } from 'crypto'
+import WebhookDelivery from './WebhookDelivery.model'
+
+export const WEBHOOK_EVENTS=['product.created','product.updated','product.deleted','product.restored','product.availability_changed'] as const
+export type WebhookEvent=typeof WEBHOOK_EVENTS[number]
+
+// El secreto solo se devuelve al crear la suscripcion
+@DefaultScope(()=>({
+    attributes:{exclude:['secret']}
+}))
+@Scopes(()=>({
+    withSecret:{attributes:{include:['secret']}}
+}))
+@Table({
+    tableName:'webhook_subscriptions'
+})
+
+class WebhookSubscription extends Model{
+    @AllowNull(false)
+    @Column({
+        type:DataType.STRING(2048)
+    })
+    declare url:string
+    @AllowNull(false)
+    @Column({
+        type:DataType.ARRAY(DataType.STRING(50))
+    })
+    declare events:WebhookEvent[]
+    @Column({
+        type:DataType.STRING(255)
+    })
+    declare description:string | null
+    @AllowNull(false)
+    @Default(()=>randomBytes(32).toString('hex'))
+    @Column({
+        type:DataType.STRING(64)
+    })
+    declare secret:string
+    @Default(true)
+    @Column({
+        type:DataType.BOOLEAN
+    })
+    declare active:boolean
+    @HasMany(()=>WebhookDelivery)
+    declare deliveries:WebhookDelivery[]
+}
+
+export default WebhookSubscription
@@ -1,7 +1,23 @@
-import { Router } from "express"
-import { body, param } from "express-validator"
-import { createProduct, deleteProduct, getProductById, getProducts, updateAvailability, updateProduct } from "./handlers/product"
+import express, { Router } from "express"
+import { body, param, query } from "express-validator"
+import { createProduct, deleteProduct, getProductById, getProducts, getTrashedProducts, patchProduct, purgeProduct, restoreProduct, searchProducts, updateAvailability, updateProduct } from "./handlers/product"
+import { exportProducts, importProducts } from "./handlers/catalog"
+import { adjustPrices, BULK_MODES, bulkProducts, MAX_BULK_OPERATIONS } from "./handlers/bulk"
+import { getProductHistory } from "./handlers/history"
+import { deleteProductImage, getProductImages, reorderProductImages, setPrimaryImage, uploadProductImages } from "./handlers/image"
+import { getStockMovements, recordStockMovement } from "./handlers/stock"
+import { createProductVariant, deleteProductVariant, getProductVariantById, getProductVariants, updateProductVariant } from "./handlers/variant"
 import { handleInputErrors } from "./middleware"
+import { authenticate, authorize, canWrite } from "./middleware/auth"
+import { uploadImages } from "./middleware/upload"
+import { STOCK_MOVEMENT_TYPES } from "./models/StockMovement.model"
+import { toPrefixTsQuery } from "./utils/search"
+import { isCurrency } from "./utils/money"
+import { message } from "./i18n"
+import productCache from "./cache"
+import config from "./config/env"
+import { createVariantRules, patchVariantRules } from "./validators/variant"
+import { createProductRules, currencyQueryRule, nonEmptyBody, onlyKnownFields, paginationRules, patchProductRules, productCategoryRule, productCurrencyRule, productDescriptionRule, productFilterRules, productIncludeRule, productNameRule, productPriceRule } from "./validators/product"
 
 const router = Router()
 
@@ -20,130 +36,1952 @@ const router = Router()
  *                      type: string
  *                      description: The product name
  *                      example: Monitor Curvo de 49 pulgadas 
+ *                  description:
+ *                      type: string
+ *                      nullable: true
+ *                      description: The product description
+ *                      example: Monitor ultra panoramico con resolucion 5K
  *                  price:
  *                      type: number
- *                      description: The product price
+ *                      description: The product price, stored as an exact decimal
  *                      example: 300  
+ *                  currency:
+ *                      type: string
+ *                      description: The ISO 4217 code of the price currency
+ *                      example: USD
+ *                  converted:
+ *                      type: object
+ *                      description: The price in the currency requested with ?currency, only present when requested
+ *                      properties:
+ *                          currency:
+ *                              type: string
+ *                              example: MXN
+ *                          price:
+ *                              type: number
+ *                              example: 5175
+ *                          rate:
+ *                              type: number
+ *                              example: 17.25
  *                  availability:
  *                      type: boolean
- *                      description: The product availability
+ *                      description: The product availability. It can't be true without stock and becomes false when the stock runs out. For products with variants it is true while any variant is available
  *                      example: true 
+ *                  stock:
+ *                      type: integer
+ *                      description: The units in stock
+ *                      example: 25
+ *                  categoryId:
+ *                      type: integer
+ *                      description: The ID of the product category
+ *                      example: 1
+ *                  category:
+ *                      $ref: '#/components/schemas/Category'
+ *                  images:
+ *                      type: array
+ *                      description: The product images in display order. Product lists only include the primary image
+ *                      items:
+ *                          $ref: '#/components/schemas/ProductImage'
+ *                  variants:
+ *                      type: array
+ *                      description: The product variants, only present when requested with ?include=variants
+ *                      items:
+ *                          $ref: '#/components/schemas/ProductVariant'
+ *                  version:
+ *                      type: integer
+ *                      description: The product version, increased on every change
+ *                      example: 0
+ *          StockMovement:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The movement ID
+ *                      example: 1
+ *                  productId:
+ *                      type: integer
+ *                      description: The ID of the product
+ *                      example: 1
+ *                  type:
+ *                      type: string
+ *                      enum: [increase, decrease]
+ *                      description: Whether the stock increased or decreased
+ *                      example: increase
+ *                  quantity:
+ *                      type: integer
+ *                      description: The units added or removed
+ *                      example: 10
+ *                  reason:
+ *                      type: string
+ *                      description: Why the stock changed
+ *                      example: Compra a proveedor
+ *                  stockAfter:
+ *                      type: integer
+ *                      description: The product stock after the movement
+ *                      example: 35
+ *                  userId:
+ *                      type: integer
+ *                      description: The ID of the user that recorded the movement
+ *                      example: 1
+ *                  createdAt:
+ *                      type: string
+ *                      format: date-time
+ *                      description: When the movement was recorded
+ *          ProductAudit:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The audit entry ID
+ *                      example: 1
+ *                  productId:
+ *                      type: integer
+ *                      description: The ID of the product
+ *                      example: 1
+ *                  action:
+ *                      type: string
+ *                      enum: [create, update, availability, delete, restore, purge]
+ *                      description: The change applied to the product
+ *                      example: update
+ *                  oldValues:
+ *                      type: object
+ *                      description: The values before the change
+ *                      example: {"price": 300}
+ *                  newValues:
+ *                      type: object
+ *                      description: The values after the change
+ *                      example: {"price": 350}
+ *                  userId:
+ *                      type: integer
+ *                      description: The ID of the user that made the change, if known
+ *                      example: 1
+ *                  createdAt:
+ *                      type: string
+ *                      format: date-time
+ *                      description: When the change happened
+ *          ProductImage:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The image ID
+ *                      example: 1
+ *                  productId:
+ *                      type: integer
+ *                      description: The ID of the product
+ *                      example: 1
+ *                  url:
+ *                      type: string
+ *                      description: Where the image can be downloaded
+ *                      example: /uploads/products/1/3f1c9a2e-5b7d-4c1e-9f3a-2d6b8e4a7c10.jpeg
+ *                  thumbnailUrl:
+ *                      type: string
+ *                      description: Where a WebP thumbnail of up to 300x300 pixels can be downloaded
+ *                      example: /uploads/products/1/3f1c9a2e-5b7d-4c1e-9f3a-2d6b8e4a7c10-thumb.webp
+ *                  contentType:
+ *                      type: string
+ *                      enum: [image/jpeg, image/png, image/webp]
+ *                      example: image/jpeg
+ *                  size:
+ *                      type: integer
+ *                      description: The file size in bytes
+ *                      example: 284311
+ *                  width:
+ *                      type: integer
+ *                      example: 1200
+ *                  height:
+ *                      type: integer
+ *                      example: 800
+ *                  position:
+ *                      type: integer
+ *                      description: The display order of the image, starting at 0
+ *                      example: 0
+ *                  isPrimary:
+ *                      type: boolean
+ *                      description: Whether this is the main image of the product
+ *                      example: true
+ *          ProductVariant:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The variant ID
+ *                      example: 1
+ *                  productId:
+ *                      type: integer
+ *                      description: The ID of the product
+ *                      example: 1
+ *                  sku:
+ *                      type: string
+ *                      description: The unique stock keeping unit of the variant
+ *                      example: PLAYERA-M-NEGRO
+ *                  options:
+ *                      type: object
+ *                      description: The attributes that tell the variant apart
+ *                      additionalProperties:
+ *                          type: string
+ *                      example: {"talla": "M", "color": "Negro"}
+ *                  price:
+ *                      type: number
+ *                      nullable: true
+ *                      description: The price of the variant in the product currency. Null means the product price
+ *                      example: 19.99
+ *                  availability:
+ *                      type: boolean
+ *                      description: The variant availability. The product is available while any of its variants is
+ *                      example: true
+ *                  converted:
+ *                      type: object
+ *                      description: The variant price in the currency requested with ?currency, only present when requested
+ *                      properties:
+ *                          currency:
+ *                              type: string
+ *                              example: MXN
+ *                          price:
+ *                              type: number
+ *                              example: 344.83
+ *                          rate:
+ *                              type: number
+ *                              example: 17.25
+ *          ProductPatch:
+ *              type: object
+ *              additionalProperties: false
+ *              properties:
+ *                  name:
+ *                      type: string
+ *                      example: "Monitor Curvo 49 Pulgadas --Actualizado"
+ *                  description:
+ *                      type: string
+ *                      nullable: true
+ *                      example: "Monitor ultra panoramico"
+ *                  price:
+ *                      type: number
+ *                      example: 399
+ *                  currency:
+ *                      type: string
+ *                      example: USD
+ *                  availability:
+ *                      type: boolean
+ *                      example: false
+ *                  categoryId:
+ *                      type: integer
+ *                      nullable: true
+ *                      example: 1
+ *          PageMeta:
+ *              type: object
+ *              properties:
+ *                  total:
+ *                      type: integer
+ *                      description: The total number of matching records
+ *                      example: 42
+ *                  page:
+ *                      type: integer
+ *                      description: The current page
+ *                      example: 1
+ *                  limit:
+ *                      type: integer
+ *                      description: The number of records per page
+ *                      example: 10
+ *                  totalPages:
+ *                      type: integer
+ *                      description: The total number of pages
+ *                      example: 5
+ *          Error:
+ *              type: object
+ *              properties:
+ *                  error:
+ *                      type: object
+ *                      properties:
+ *                          status:
+ *                              type: integer
+ *                              description: The HTTP status code
+ *                              example: 404
+ *                          code:
+ *                              type: string
+ *                              description: A machine readable error category
+ *                              example: NOT_FOUND
+ *                          reason:
+ *                              type: string
+ *                              description: A stable machine readable code of the specific error
+ *                              example: PRODUCT_NOT_FOUND
+ *                          message:
+ *                              type: string
+ *                              description: A human readable description of the error, in the language of the request
+ *                              example: Producto no encontrado
+ *                          details:
+ *                              type: array
+ *                              description: The validation errors, if any
+ *                              items:
+ *                                  type: object
+ *                                  properties:
+ *                                      path:
+ *                                          type: string
+ *                                          example: id
+ *                                      location:
+ *                                          type: string
+ *                                          example: params
+ *                                      code:
+ *                                          type: string
+ *                                          description: A stable machine readable code of the validation error
+ *                                          example: INVALID_ID
+ *                                      msg:
+ *                                          type: string
+ *                                          description: The validation error in the language of the request
+ *                                          example: ID no valido
+ */
+
+
+/**
+ * @swagger
+ * /api/products:
+ *      get: 
+ *          summary: Get a list of products
+ *          tags:
+ *              - Products
+ *          description: Return a paginated list of products, optionally filtered and sorted. Responses are cached for a short time and the cache is cleared whenever a product changes
+ *          parameters:
+ *            - in: query
+ *              name: page
+ *              description: The page number to retrieve
+ *              schema:
+ *                  type: integer
+ *                  minimum: 1
+ *                  default: 1
+ *            - in: query
+ *              name: limit
+ *              description: The number of products per page
+ *              schema:
+ *                  type: integer
+ *                  minimum: 1
+ *                  maximum: 100
+ *                  default: 10
+ *            - in: query
+ *              name: availability
+ *              description: Only return products with this availability
+ *              schema:
+ *                  type: boolean
+ *            - in: query
+ *              name: minPrice
+ *              description: Minimum product price
+ *              schema:
+ *                  type: number
+ *            - in: query
+ *              name: maxPrice
+ *              description: Maximum product price
+ *              schema:
+ *                  type: number
+ *            - in: query
+ *              name: categoryId
+ *              description: Only return products of this category
+ *              schema:
+ *                  type: integer
+ *            - in: query
+ *              name: search
+ *              description: Case insensitive substring of the product name
+ *              schema:
+ *                  type: string
+ *            - in: query
+ *              name: sort
+ *              description: Column to sort by, prefix with "-" for descending order
+ *              schema:
+ *                  type: string
+ *                  enum: [id, -id, name, -name, price, -price, availability, -availability, createdAt, -createdAt, updatedAt, -updatedAt]
+ *                  default: -price
+ *            - in: query
+ *              name: currency
+ *              description: Also return every price converted to this ISO 4217 currency
+ *              schema:
+ *                  type: string
+ *                  example: MXN
+ *            - in: query
+ *              name: include
+ *              description: Related records to add to each product
+ *              schema:
+ *                  type: string
+ *                  enum: [variants]
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  headers:
+ *                      Cache-Control:
+ *                          description: How many seconds the response may be reused
+ *                          schema:
+ *                              type: string
+ *                              example: public, max-age=30
+ *                      X-Cache:
+ *                          description: Whether the response came from the cache
+ *                          schema:
+ *                              type: string
+ *                              enum: [HIT, MISS]
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: object
+ *                              properties:
+ *                                  data:
+ *                                      type: array
+ *                                      items:
+ *                                          $ref: '#/components/schemas/Product'
+ *                                  meta:
+ *                                      $ref: '#/components/schemas/PageMeta'
+ *              400:
+ *                  description: Bad request - Invalid query parameters
+ *              422:
+ *                  description: Unprocessable entity - There is no exchange rate to the requested currency
+ * 
+ */
+
+router.get('/',
+    ...paginationRules,
+    ...productFilterRules,
+    currencyQueryRule,
+    productIncludeRule,
+    handleInputErrors,
+    productCache.route('products',config.cache.productsTtl),
+    getProducts
+)
+
+/**
+ * @swagger
+ * /api/products/trash:
+ *  get:
+ *      summary: Get the deleted products
+ *      tags:
+ *          - Products
+ *      description: Return the products that were moved to the trash and can still be restored
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: array
+ *                          items:
+ *                              $ref: '#/components/schemas/Product'
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.get('/trash',
+    ...canWrite,
+    getTrashedProducts
+)
+
+/**
+ * @swagger
+ * /api/products/search:
+ *  get:
+ *      summary: Search products by text
+ *      tags:
+ *          - Products
+ *      description: Full-text search over the product name and description, ranked by relevance unless another order is requested. Matches word prefixes for typeahead and ignores accents
+ *      parameters:
+ *        - in: query
+ *          name: q
+ *          description: The text to search for
+ *          required: true
+ *          schema:
+ *              type: string
+ *              example: monitor cur
+ *        - in: query
+ *          name: page
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              default: 1
+ *        - in: query
+ *          name: limit
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              maximum: 100
+ *              default: 10
+ *        - in: query
+ *          name: availability
+ *          schema:
+ *              type: boolean
+ *        - in: query
+ *          name: minPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: maxPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: categoryId
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: sort
+ *          description: Column to sort by, prefix with "-" for descending order. Products with the same value are ranked by relevance
+ *          schema:
+ *              type: string
+ *              enum: [id, -id, name, -name, price, -price, availability, -availability, createdAt, -createdAt, updatedAt, -updatedAt]
+ *        - in: query
+ *          name: currency
+ *          description: Also return every price converted to this ISO 4217 currency
+ *          schema:
+ *              type: string
+ *        - in: query
+ *          name: include
+ *          description: Related records to add to each product
+ *          schema:
+ *              type: string
+ *              enum: [variants]
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      allOf:
+ *                                          - $ref: '#/components/schemas/Product'
+ *                                          - type: object
+ *                                            properties:
+ *                                              rank:
+ *                                                  type: number
+ *                                                  description: The relevance of the product for the search
+ *                              meta:
+ *                                  $ref: '#/components/schemas/PageMeta'
+ *          400:
+ *              description: Bad request - Invalid query parameters
+ */
+
+router.get('/search',
+    query('q')
+        .isString().withMessage('INVALID_SEARCH').bail()
+        .isLength({max:100}).withMessage('SEARCH_TOO_LONG').bail()
+        .custom(value=>toPrefixTsQuery(value)!=='').withMessage('SEARCH_EMPTY'),
+    ...paginationRules,
+    ...productFilterRules,
+    currencyQueryRule,
+    productIncludeRule,
+    handleInputErrors,
+    searchProducts
+)
+
+/**
+ * @swagger
+ * /api/products/export:
+ *  get:
+ *      summary: Exports the product catalog
+ *      tags:
+ *          - Products
+ *      description: Streams every product matching the listing filters as a CSV or JSON download
+ *      parameters:
+ *        - in: query
+ *          name: format
+ *          description: The file format
+ *          schema:
+ *              type: string
+ *              enum: [csv, json]
+ *              default: csv
+ *        - in: query
+ *          name: availability
+ *          schema:
+ *              type: boolean
+ *        - in: query
+ *          name: minPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: maxPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: categoryId
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: search
+ *          schema:
+ *              type: string
+ *        - in: query
+ *          name: sort
+ *          schema:
+ *              type: string
+ *              default: -price
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  text/csv:
+ *                      schema:
+ *                          type: string
+ *                  application/json:
+ *                      schema:
+ *                          type: array
+ *                          items:
+ *                              $ref: '#/components/schemas/Product'
+ *          400:
+ *              description: Bad request - Invalid query parameters
+ */
+
+router.get('/export',
+    query('format').optional().isIn(['csv','json']).withMessage('INVALID_FORMAT'),
+    ...productFilterRules,
+    handleInputErrors,
+    exportProducts
+)
+
+/**
+ * @swagger
+ * /api/products/import:
+ *  post:
+ *      summary: Imports products in bulk
+ *      tags:
+ *          - Products
+ *      description: Validates every row with the same rules as the product creation and inserts them in a single transaction. Nothing is inserted if any row is invalid. Blank CSV cells leave optional fields unset
+ *      parameters:
+ *        - in: query
+ *          name: dryRun
+ *          description: Only validate the rows without inserting them
+ *          schema:
+ *              type: boolean
+ *              default: false
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              text/csv:
+ *                  schema:
+ *                      type: string
+ *                      example: "name,price,currency,stock,categoryId\nMonitor Curvo,300,USD,25,1"
+ *              application/json:
+ *                  schema:
+ *                      type: array
+ *                      items:
+ *                          type: object
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  example: "Monitor curvo 49 pulgadas"
+ *                              price:
+ *                                  type: number
+ *                                  example: 399
+ *                              currency:
+ *                                  type: string
+ *                                  example: USD
+ *                              stock:
+ *                                  type: integer
+ *                                  example: 25
+ *                              availability:
+ *                                  type: boolean
+ *                                  example: true
+ *                              categoryId:
+ *                                  type: integer
+ *                                  example: 1
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful dry run
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: object
+ *                                  properties:
+ *                                      dryRun:
+ *                                          type: boolean
+ *                                      valid:
+ *                                          type: integer
+ *                                      created:
+ *                                          type: integer
+ *          400:
+ *              description: Bad request - The error details list the invalid rows (1-based) and their errors
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Error'
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ *          413:
+ *              description: Payload too large - The body is larger than IMPORT_BODY_LIMIT (1mb by default)
+ */
+
+router.post('/import',
+    ...canWrite,
+    express.text({type:['text/csv'],limit:config.importBodyLimit}),
+    query('dryRun').optional().isBoolean().withMessage('INVALID_DRY_RUN').toBoolean(),
+    handleInputErrors,
+    importProducts
+)
+
+/**
+ * @swagger
+ * /api/products/bulk:
+ *  post:
+ *      summary: Applies several product changes in one request
+ *      tags:
+ *          - Products
+ *      description: |
+ *          Runs up to 500 operations in order. Each operation is validated with the same rules as its single product route:
+ *          `create` uses POST /api/products, `update` uses PATCH /api/products/{id} and `availability` sets the availability.
+ *          In `atomic` mode (the default) every operation is applied in one transaction and any failure rolls back the whole batch.
+ *          In `partial` mode each operation is applied on its own and the response reports the result of every operation
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          mode:
+ *                              type: string
+ *                              enum: [atomic, partial]
+ *                              default: atomic
+ *                          operations:
+ *                              type: array
+ *                              items:
+ *                                  type: object
+ *                                  properties:
+ *                                      op:
+ *                                          type: string
+ *                                          enum: [create, update, delete, availability]
+ *                                      id:
+ *                                          type: integer
+ *                                          description: The product ID, required for every operation except create
+ *                                      data:
+ *                                          $ref: '#/components/schemas/ProductPatch'
+ *                                      availability:
+ *                                          type: boolean
+ *                                          description: The new availability, only for the availability operation
+ *                              example:
+ *                                  - op: create
+ *                                    data: {"name": "Teclado Mecanico", "price": 120}
+ *                                  - op: update
+ *                                    id: 1
+ *                                    data: {"price": 280}
+ *                                  - op: availability
+ *                                    id: 2
+ *                                    availability: false
+ *                                  - op: delete
+ *                                    id: 3
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: object
+ *                                  properties:
+ *                                      mode:
+ *                                          type: string
+ *                                          example: partial
+ *                                      succeeded:
+ *                                          type: integer
+ *                                          example: 3
+ *                                      failed:
+ *                                          type: integer
+ *                                          example: 1
+ *                                      results:
+ *                                          type: array
+ *                                          items:
+ *                                              type: object
+ *                                              properties:
+ *                                                  index:
+ *                                                      type: integer
+ *                                                      description: The position of the operation in the request
+ *                                                  op:
+ *                                                      type: string
+ *                                                  status:
+ *                                                      type: integer
+ *                                                      description: The HTTP status the single product route would return
+ *                                                  data:
+ *                                                      type: object
+ *                                                  error:
+ *                                                      type: object
+ *                                                      properties:
+ *                                                          code:
+ *                                                              type: string
+ *                                                          reason:
+ *                                                              type: string
+ *                                                          message:
+ *                                                              type: string
+ *          400:
+ *              description: Bad request - Some operations are not valid. Nothing is applied
+ *          404:
+ *              description: Product not found - Only in atomic mode, nothing is applied
+ *          409:
+ *              description: Conflict - The availability can't change (no stock or the product has variants). Only in atomic mode, nothing is applied
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.post('/bulk',
+    ...canWrite,
+    body('mode').optional().isIn(BULK_MODES).withMessage('INVALID_BULK_MODE'),
+    body('operations').isArray({min:1,max:MAX_BULK_OPERATIONS}).withMessage(message('BULK_SIZE',{max:MAX_BULK_OPERATIONS})),
+    handleInputErrors,
+    bulkProducts
+)
+
+/**
+ * @swagger
+ * /api/products/bulk/price:
+ *  post:
+ *      summary: Adjusts the price of every matching product
+ *      tags:
+ *          - Products
+ *      description: Raises or lowers the price of the products that match the filters, by a percentage or a fixed amount. Prices are rounded to the decimals of their currency and the adjustment is refused if any price would drop to zero or below
+ *      parameters:
+ *        - in: query
+ *          name: availability
+ *          schema:
+ *              type: boolean
+ *        - in: query
+ *          name: categoryId
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: minPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: maxPrice
+ *          schema:
+ *              type: number
+ *        - in: query
+ *          name: search
+ *          description: Only products whose name contains this text
+ *          schema:
+ *              type: string
+ *        - in: query
+ *          name: dryRun
+ *          description: Return the new prices without saving them
+ *          schema:
+ *              type: boolean
+ *              default: false
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          type:
+ *                              type: string
+ *                              enum: [percentage, fixed]
+ *                              example: percentage
+ *                          value:
+ *                              type: number
+ *                              description: The change to apply, negative values lower the price
+ *                              example: -15
+ *                          currency:
+ *                              type: string
+ *                              description: Only adjust prices in this ISO 4217 currency. Required for fixed adjustments
+ *                              example: USD
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: object
+ *                                  properties:
+ *                                      dryRun:
+ *                                          type: boolean
+ *                                          example: false
+ *                                      updated:
+ *                                          type: integer
+ *                                          example: 1
+ *                                      products:
+ *                                          type: array
+ *                                          items:
+ *                                              type: object
+ *                                              properties:
+ *                                                  id:
+ *                                                      type: integer
+ *                                                      example: 1
+ *                                                  name:
+ *                                                      type: string
+ *                                                      example: Monitor Curvo de 49 pulgadas
+ *                                                  currency:
+ *                                                      type: string
+ *                                                      example: USD
+ *                                                  oldPrice:
+ *                                                      type: number
+ *                                                      example: 300
+ *                                                  price:
+ *                                                      type: number
+ *                                                      example: 255
+ *          400:
+ *              description: Bad request - Invalid adjustment or filters
+ *          409:
+ *              description: Conflict - Some prices would drop to zero or below
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.post('/bulk/price',
+    ...canWrite,
+    ...productFilterRules,
+    query('dryRun').optional().isBoolean().withMessage('INVALID_DRY_RUN').toBoolean(),
+    body('type').isIn(['percentage','fixed']).withMessage('INVALID_ADJUSTMENT_TYPE'),
+    body('value')
+        .isFloat().withMessage('INVALID_VALUE').bail()
+        .custom(value=>Number(value)!==0).withMessage('ADJUSTMENT_ZERO')
+        .custom((value,{req})=>req.body.type!=='percentage' || Number(value)>-100).withMessage('ADJUSTMENT_PERCENTAGE_TOO_LOW')
+        .toFloat(),
+    // Un monto fijo solo tiene sentido sobre precios de una misma moneda
+    body('currency')
+        .if((value,{req})=>req.body.type==='fixed' || value!==undefined)
+        .custom(isCurrency).withMessage('ADJUSTMENT_CURRENCY_REQUIRED'),
+    handleInputErrors,
+    adjustPrices
+)
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *  get:
+ *      summary: Get a product by ID
+ *      tags:
+ *          - Products
+ *      description: Return a product based on its unique ID. Responses are cached for a short time and the cache is cleared whenever a product changes
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to retrieve
+ *          required: true
+ *          schema: 
+ *              type: integer
+ *        - in: query
+ *          name: currency
+ *          description: Also return the price converted to this ISO 4217 currency
+ *          schema:
+ *              type: string
+ *              example: MXN
+ *        - in: query
+ *          name: include
+ *          description: Related records to add to the product
+ *          schema:
+ *              type: string
+ *              enum: [variants]
+ *        - in: header
+ *          name: If-None-Match
+ *          description: The ETag of a cached copy of the product
+ *          schema:
+ *              type: string
+ *      responses:
+ *          200:
+ *              description: Successful Response
+ *              headers:
+ *                  ETag:
+ *                      description: The current version of the product
+ *                      schema:
+ *                          type: string
+ *                  Cache-Control:
+ *                      description: How many seconds the response may be reused
+ *                      schema:
+ *                          type: string
+ *                          example: public, max-age=60
+ *                  X-Cache:
+ *                      description: Whether the response came from the cache
+ *                      schema:
+ *                          type: string
+ *                          enum: [HIT, MISS]
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Product'
+ *          304:
+ *              description: Not modified - The cached copy is still current
+ *          404:
+ *              description: Not found 
+ *          400:
+ *              description: Bad request - Invalid ID or currency
+ *          422:
+ *              description: Unprocessable entity - There is no exchange rate to the requested currency
+ */
+
+router.get('/:id',
+    param('id').isInt().withMessage('INVALID_ID'),
+    currencyQueryRule,
+    productIncludeRule,
+    handleInputErrors,
+    productCache.route('product',config.cache.productTtl),
+    getProductById
+)
+
+
+
+/**
+ * @swagger
+ * /api/products:
+ *  post:
+ *      summary: creates a new product
+ *      tags:
+ *          - Products
+ *      description: Returns a new record in the database. The initial stock is recorded as a stock movement and a product without stock is created unavailable
+ *      requestBody:
+ *          required: true
+ *          content: 
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          name:
+ *                              type: string
+ *                              example: "Monitor curvo 49 pulgadas"
+ *                          description:
+ *                              type: string
+ *                              example: "Monitor ultra panoramico"
+ *                          price:
+ *                              type: number
+ *                              example: 399
+ *                          currency:
+ *                              type: string
+ *                              description: ISO 4217 code, defaults to the store currency
+ *                              example: USD
+ *                          stock:
+ *                              type: integer
+ *                              description: The initial stock, 0 by default
+ *                              example: 25
+ *                          availability:
+ *                              type: boolean
+ *                              description: Defaults to true when there is stock. It can't be true without stock
+ *                              example: true
+ *                          categoryId:
+ *                              type: integer
+ *                              example: 1
+ *  
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response 
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Product'
+ *          400: 
+ *              description: bad request - invalid input data
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+router.post('/',
+    ...canWrite,
+    ...createProductRules,
+    onlyKnownFields,
+    handleInputErrors,
+    createProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}:  
+ *  put:
+ *      summary: Updates a product with user input
+ *      tags:
+ *          - Products
+ *      description: Returns the updated product
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to retrieve
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: header
+ *          name: If-Match
+ *          description: The ETag of the product version being modified
+ *          schema:
+ *              type: string
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          name:
+ *                              type: string
+ *                              example: "Monitor Curvo 49 Pulgadas --Actualizado"
+ *                          description:
+ *                              type: string
+ *                              example: "Monitor ultra panoramico"
+ *                          price:
+ *                              type: number
+ *                              example: 399
+ *                          currency:
+ *                              type: string
+ *                              description: ISO 4217 code, defaults to the store currency
+ *                              example: USD
+ *                          availability:
+ *                              type: boolean
+ *                              example: true
+ *                          categoryId:
+ *                              type: integer
+ *                              example: 1
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response 
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Product'
+ *          400:
+ *              description: Bad request - Invalid ID or invalid input data
+ *          404:
+ *              description: Product not found 
+ *          409:
+ *              description: Conflict - A product without stock can't be available, and the availability of a product with variants depends on its variants
+ *          412:
+ *              description: Precondition failed - The product was modified by another request
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+
+router.put('/:id',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    productNameRule,
+    productDescriptionRule,
+    productPriceRule,
+    productCurrencyRule,
+    body('availability').isBoolean().withMessage("AVAILABILITY_REQUIRED").toBoolean(),
+    productCategoryRule,
+    onlyKnownFields,
+    handleInputErrors,
+    updateProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *  patch:
+ *      summary: Partially updates a product
+ *      tags:
+ *          - Products 
+ *      description: Applies a JSON Merge Patch to the product. Only the fields sent are updated and a null categoryId removes the category. Unknown fields are rejected
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to update
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: header
+ *          name: If-Match
+ *          description: The ETag of the product version being modified
+ *          schema:
+ *              type: string
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/merge-patch+json:
+ *                  schema:
+ *                      $ref: '#/components/schemas/ProductPatch'
+ *              application/json:
+ *                  schema:
+ *                      $ref: '#/components/schemas/ProductPatch'
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response 
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Product'
+ *          400:
+ *              description: Bad request - Invalid ID, invalid input data or unknown fields
+ *          404:
+ *              description: Product not found 
+ *          409:
+ *              description: Conflict - A product without stock can't be available, and the availability of a product with variants depends on its variants
+ *          412:
+ *              description: Precondition failed - The product was modified by another request
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.patch('/:id',
+    ...canWrite,
+    express.json({type:'application/merge-patch+json'}),
+    param('id').isInt().withMessage('INVALID_ID'),
+    ...patchProductRules,
+    onlyKnownFields,
+    nonEmptyBody,
+    handleInputErrors,
+    patchProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/availability/toggle:
+ *  post:
+ *      summary: Toggles the product availability
+ *      tags:
+ *          - Products 
+ *      description: Returns the product with its availability inverted
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to update
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: header
+ *          name: If-Match
+ *          description: The ETag of the product version being modified
+ *          schema:
+ *              type: string
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response 
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Product'
+ *          400:
+ *              description: Bad request - Invalid ID 
+ *          404:
+ *              description: Product not found 
+ *          409:
+ *              description: Conflict - A product without stock can't be available, and the availability of a product with variants depends on its variants
+ *          412:
+ *              description: Precondition failed - The product was modified by another request
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.post('/:id/availability/toggle',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    updateAvailability
+)
+
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *  delete:
+ *      summary: deletes a product by a given ID
+ *      tags:
+ *          - Products 
+ *      description: Moves the product to the trash and returns a confirmation message 
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to delete 
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: header
+ *          name: If-Match
+ *          description: The ETag of the product version being modified
+ *          schema:
+ *              type: string
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response 
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           type: string 
+ *                           value: 'Producto eliminado'
+ *          400:
+ *              description: Bad request - Invalid ID 
+ *          404:
+ *              description: Product not found 
+ *          412:
+ *              description: Precondition failed - The product was modified by another request
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ * 
+ * 
+ * 
+ */
+
+
+router.delete('/:id',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    deleteProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/restore:
+ *  post:
+ *      summary: Restores a deleted product
+ *      tags:
+ *          - Products
+ *      description: Moves a product out of the trash and returns it
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to restore
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Product'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product not found in the trash
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.post('/:id/restore',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    restoreProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/purge:
+ *  delete:
+ *      summary: Permanently deletes a product from the trash
+ *      tags:
+ *          - Products
+ *      description: Removes a deleted product for good, along with its images. Only admins can purge products
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product to purge
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           type: string
+ *                           value: 'Producto eliminado permanentemente'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product not found in the trash
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can purge products
+ */
+
+router.delete('/:id/purge',
+    authenticate,
+    authorize('admin'),
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    purgeProduct
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/stock:
+ *  get:
+ *      summary: Get the stock movements of a product
+ *      tags:
+ *          - Products
+ *      description: Return the current stock and a paginated list of stock movements, newest first
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: page
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              default: 1
+ *        - in: query
+ *          name: limit
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              maximum: 100
+ *              default: 10
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/StockMovement'
+ *                              meta:
+ *                                  $ref: '#/components/schemas/PageMeta'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product not found
+ */
+
+router.get('/:id/stock',
+    param('id').isInt().withMessage('INVALID_ID'),
+    ...paginationRules,
+    handleInputErrors,
+    getStockMovements
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/stock:
+ *  post:
+ *      summary: Records a stock movement
+ *      tags:
+ *          - Products
+ *      description: Increases or decreases the product stock. The product becomes unavailable when its stock reaches zero
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          type:
+ *                              type: string
+ *                              enum: [increase, decrease]
+ *                              example: increase
+ *                          quantity:
+ *                              type: integer
+ *                              example: 10
+ *                          reason:
+ *                              type: string
+ *                              example: "Compra a proveedor"
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/StockMovement'
+ *          400:
+ *              description: Bad request - Invalid ID or invalid input data
+ *          404:
+ *              description: Product not found
+ *          409:
+ *              description: Conflict - Not enough stock
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.post('/:id/stock',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    body('type').isIn(STOCK_MOVEMENT_TYPES).withMessage("INVALID_STOCK_MOVEMENT_TYPE"),
+    body('quantity').isInt({min:1}).withMessage("INVALID_QUANTITY").toInt(),
+    body('reason')
+        .notEmpty().withMessage("STOCK_REASON_REQUIRED")
+        .isLength({max:255}).withMessage("STOCK_REASON_TOO_LONG"),
+    handleInputErrors,
+    recordStockMovement
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/history:
+ *  get:
+ *      summary: Get the change history of a product
+ *      tags:
+ *          - Products
+ *      description: Return the audit trail of a product, newest first. Use field=price to get its price history
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: from
+ *          description: Only return changes made on or after this date
+ *          schema:
+ *              type: string
+ *              format: date-time
+ *        - in: query
+ *          name: to
+ *          description: Only return changes made on or before this date
+ *          schema:
+ *              type: string
+ *              format: date-time
+ *        - in: query
+ *          name: field
+ *          description: Only return changes that set this field
+ *          schema:
+ *              type: string
+ *              enum: [name, description, price, availability, stock, categoryId]
+ *        - in: query
+ *          name: page
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              default: 1
+ *        - in: query
+ *          name: limit
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              maximum: 100
+ *              default: 10
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ProductAudit'
+ *                              meta:
+ *                                  $ref: '#/components/schemas/PageMeta'
+ *          400:
+ *              description: Bad request - Invalid ID or query parameters
+ *          404:
+ *              description: Product not found
+ */
+
+router.get('/:id/history',
+    param('id').isInt().withMessage('INVALID_ID'),
+    query('from').optional().isISO8601().withMessage('INVALID_FROM_DATE').toDate(),
+    query('to').optional().isISO8601().withMessage('INVALID_TO_DATE').toDate(),
+    query('field').optional().isIn(['name','description','price','availability','stock','categoryId']).withMessage('INVALID_HISTORY_FIELD'),
+    ...paginationRules,
+    handleInputErrors,
+    getProductHistory
+)
+
+
+/**
+ * @swagger
+ * /api/products/{id}/images:
+ *  get:
+ *      summary: Get the images of a product
+ *      tags:
+ *          - Products
+ *      description: Return the product images in display order
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ProductImage'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product not found
  */
 
+router.get('/:id/images',
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    getProductImages
+)
 
 /**
  * @swagger
- * /api/products:
- *      get: 
- *          summary: Get a list of products
- *          tags:
- *              - Products
- *          description: Return a list of products
- *          responses:
- *              200:
- *                  description: Successful response
- *                  content:
- *                      application/json:
- *                          schema:
+ * /api/products/{id}/images:
+ *  post:
+ *      summary: Uploads images for a product
+ *      tags:
+ *          - Products
+ *      description: Adds up to 10 JPEG, PNG or WebP images at the end of the product gallery and generates their thumbnails. The first image of a product becomes its primary image
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              multipart/form-data:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          images:
  *                              type: array
  *                              items:
- *                                  $ref: '#/components/schemas/Product'
- *              
- * 
+ *                                  type: string
+ *                                  format: binary
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ProductImage'
+ *          400:
+ *              description: Bad request - Invalid ID, missing images or files that are not valid images
+ *          404:
+ *              description: Product not found
+ *          409:
+ *              description: Conflict - The product would exceed the maximum number of images
+ *          413:
+ *              description: Payload too large - An image exceeds the maximum size
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
  */
 
-router.get('/',getProducts)
+router.post('/:id/images',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    uploadImages('images'),
+    uploadProductImages
+)
 
 /**
  * @swagger
- * /api/products/{id}:
- *  get:
- *      summary: Get a product by ID
+ * /api/products/{id}/images/order:
+ *  put:
+ *      summary: Reorders the images of a product
  *      tags:
  *          - Products
- *      description: Return a product based on its unique ID 
+ *      description: Sets the display order of the product images. The list must contain every image of the product exactly once
  *      parameters:
  *        - in: path
  *          name: id
- *          description: The ID of the product to retrieve
+ *          description: The ID of the product
  *          required: true
- *          schema: 
+ *          schema:
  *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          ids:
+ *                              type: array
+ *                              items:
+ *                                  type: integer
+ *                              example: [3, 1, 2]
+ *      security:
+ *          - bearerAuth: []
  *      responses:
  *          200:
- *              description: Successful Response
+ *              description: Successful response
  *              content:
  *                  application/json:
  *                      schema:
- *                          $ref: '#/components/schemas/Product'
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ProductImage'
+ *          400:
+ *              description: Bad request - Invalid ID or the list doesn't match the product images
  *          404:
- *              description: Not found 
+ *              description: Product not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.put('/:id/images/order',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    body('ids').isArray({min:1}).withMessage('IMAGE_ORDER_REQUIRED'),
+    body('ids.*').isInt().withMessage('INVALID_IMAGE_ID').toInt(),
+    handleInputErrors,
+    reorderProductImages
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/images/{imageId}/primary:
+ *  post:
+ *      summary: Sets the primary image of a product
+ *      tags:
+ *          - Products
+ *      description: Marks the image as the main image of the product, replacing the previous one
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: path
+ *          name: imageId
+ *          description: The ID of the image
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/ProductImage'
  *          400:
  *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product or image not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
  */
 
-router.get('/:id',
-    param('id').isInt().withMessage('ID no valido'),
+router.post('/:id/images/:imageId/primary',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('imageId').isInt().withMessage('INVALID_IMAGE_ID'),
     handleInputErrors,
-    getProductById
+    setPrimaryImage
 )
 
+/**
+ * @swagger
+ * /api/products/{id}/images/{imageId}:
+ *  delete:
+ *      summary: Deletes an image of a product
+ *      tags:
+ *          - Products
+ *      description: Removes the image and its files. If it was the primary image, the next one in order takes its place
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: path
+ *          name: imageId
+ *          description: The ID of the image
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           type: string
+ *                           value: 'Imagen eliminada'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product or image not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
 
+router.delete('/:id/images/:imageId',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('imageId').isInt().withMessage('INVALID_IMAGE_ID'),
+    handleInputErrors,
+    deleteProductImage
+)
 
 /**
  * @swagger
- * /api/products:
- *  post:
- *      summary: creates a new product
+ * /api/products/{id}/variants:
+ *  get:
+ *      summary: Get the variants of a product
  *      tags:
  *          - Products
- *      description: Returns a new record in the database 
- *      requestBody:
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
  *          required: true
- *          content: 
- *              application/json:
- *                  schema:
- *                      type: object
- *                      properties:
- *                          name:
- *                              type: string
- *                              example: "Monitor curvo 49 pulgadas"
- *                          price:
- *                              type: number
- *                              example: 399
- *  
+ *          schema:
+ *              type: integer
  *      responses:
- *          201:
- *              description: Successful response 
+ *          200:
+ *              description: Successful response
  *              content:
  *                  application/json:
  *                      schema:
- *                           $ref: '#/components/schemas/Product'
- *          400: 
- *              description: bad request - invalid input data
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ProductVariant'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product not found
  */
-router.post('/',
-    body('name').notEmpty().withMessage("El nombre del producto no puede ir vacio"),
-    body('price')
-        .isNumeric().withMessage("Valor no valido")
-        .notEmpty().withMessage("El precio del producto no puede ir vacio")
-        .custom(value=>value>0).withMessage("Precio no valido"),
+
+router.get('/:id/variants',
+    param('id').isInt().withMessage('INVALID_ID'),
     handleInputErrors,
-    createProduct
+    getProductVariants
 )
 
 /**
  * @swagger
- * /api/products/{id}:  
- *  put:
- *      summary: Updates a product with user input
+ * /api/products/{id}/variants/{variantId}:
+ *  get:
+ *      summary: Get a variant of a product
  *      tags:
  *          - Products
- *      description: Returns the updated product
  *      parameters:
  *        - in: path
  *          name: id
- *          description: The ID of the product to retrieve
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: path
+ *          name: variantId
+ *          description: The ID of the variant
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/ProductVariant'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Product or variant not found
+ */
+
+router.get('/:id/variants/:variantId',
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('variantId').isInt().withMessage('INVALID_VARIANT_ID'),
+    handleInputErrors,
+    getProductVariantById
+)
+
+/**
+ * @swagger
+ * /api/products/{id}/variants:
+ *  post:
+ *      summary: Creates a variant of a product
+ *      tags:
+ *          - Products
+ *      description: |
+ *          Adds a variant with its own SKU and options. Once a product has variants, its availability is derived from them
+ *          and can't be changed directly
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the product
  *          required: true
  *          schema:
  *              type: integer
@@ -154,118 +1992,170 @@ router.post('/',
  *                  schema:
  *                      type: object
  *                      properties:
- *                          name:
+ *                          sku:
  *                              type: string
- *                              example: "Monitor Curvo 49 Pulgadas --Actualizado"
+ *                              example: PLAYERA-M-NEGRO
+ *                          options:
+ *                              type: object
+ *                              additionalProperties:
+ *                                  type: string
+ *                              example: {"talla": "M", "color": "Negro"}
  *                          price:
  *                              type: number
- *                              example: 399
+ *                              nullable: true
+ *                              example: 19.99
  *                          availability:
  *                              type: boolean
  *                              example: true
+ *      security:
+ *          - bearerAuth: []
  *      responses:
- *          200:
- *              description: Successful response 
+ *          201:
+ *              description: Successful response
  *              content:
  *                  application/json:
  *                      schema:
- *                           $ref: '#/components/schemas/Product'
+ *                          $ref: '#/components/schemas/ProductVariant'
  *          400:
- *              description: Bad request - Invalid ID or invalid input data
+ *              description: Bad request - Invalid input data
  *          404:
- *              description: Product not found 
+ *              description: Product not found
+ *          409:
+ *              description: Conflict - The SKU is already in use or the product already has a variant with those options
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
  */
 
-
-router.put('/:id',
-    param('id').isInt().withMessage('ID no valido'),
-    body('name').notEmpty().withMessage("El nombre del producto no puede ir vacio"),
-    body('price')
-        .isNumeric().withMessage("Valor no valido")
-        .notEmpty().withMessage("El precio del producto no puede ir vacio")
-        .custom(value=>value>0).withMessage("Precio no valido"),
-    body('availability').isBoolean().withMessage("Debes de actualizar el estado del producto"),
+router.post('/:id/variants',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    ...createVariantRules,
+    onlyKnownFields,
     handleInputErrors,
-    updateProduct
+    createProductVariant
 )
 
 /**
  * @swagger
- * /api/products/{id}:
+ * /api/products/{id}/variants/{variantId}:
  *  patch:
- *      summary: Update Product availability
+ *      summary: Updates a variant of a product
  *      tags:
- *          - Products 
- *      description: Returns the updated availability
+ *          - Products
+ *      description: Changes only the fields sent. Send a null price to use the product price again
  *      parameters:
  *        - in: path
  *          name: id
- *          description: The ID of the product to retrieve
+ *          description: The ID of the product
  *          required: true
  *          schema:
  *              type: integer
+ *        - in: path
+ *          name: variantId
+ *          description: The ID of the variant
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          sku:
+ *                              type: string
+ *                          options:
+ *                              type: object
+ *                              additionalProperties:
+ *                                  type: string
+ *                          price:
+ *                              type: number
+ *                              nullable: true
+ *                          availability:
+ *                              type: boolean
+ *                              example: false
+ *      security:
+ *          - bearerAuth: []
  *      responses:
  *          200:
- *              description: Successful response 
+ *              description: Successful response
  *              content:
  *                  application/json:
  *                      schema:
- *                           $ref: '#/components/schemas/Product'
+ *                          $ref: '#/components/schemas/ProductVariant'
  *          400:
- *              description: Bad request - Invalid ID 
+ *              description: Bad request - Invalid input data
  *          404:
- *              description: Product not found 
- * 
- * 
- * 
+ *              description: Product or variant not found
+ *          409:
+ *              description: Conflict - The SKU is already in use or the product already has a variant with those options
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
  */
 
-router.patch('/:id',
-    param('id').isInt().withMessage('ID no valido'),
+router.patch('/:id/variants/:variantId',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('variantId').isInt().withMessage('INVALID_VARIANT_ID'),
+    ...patchVariantRules,
+    onlyKnownFields,
+    nonEmptyBody,
     handleInputErrors,
-    updateAvailability
+    updateProductVariant
 )
 
-
 /**
  * @swagger
- * /api/products/{id}:
+ * /api/products/{id}/variants/{variantId}:
  *  delete:
- *      summary: deletes a product by a given ID
+ *      summary: Deletes a variant of a product
  *      tags:
- *          - Products 
- *      description: Returns a confirmation message 
+ *          - Products
  *      parameters:
  *        - in: path
  *          name: id
- *          description: The ID of the product to delete 
+ *          description: The ID of the product
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: path
+ *          name: variantId
+ *          description: The ID of the variant
  *          required: true
  *          schema:
  *              type: integer
+ *      security:
+ *          - bearerAuth: []
  *      responses:
  *          200:
- *              description: Successful response 
+ *              description: Successful response
  *              content:
  *                  application/json:
  *                      schema:
- *                           type: string 
- *                           value: 'Producto eliminado'
+ *                           type: string
+ *                           value: 'Variante eliminada'
  *          400:
- *              description: Bad request - Invalid ID 
+ *              description: Bad request - Invalid ID
  *          404:
- *              description: Product not found 
- * 
- * 
- * 
+ *              description: Product or variant not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
  */
 
-
-router.delete('/:id',
-    param('id').isInt().withMessage('ID no valido'),
+router.delete('/:id/variants/:variantId',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('variantId').isInt().withMessage('INVALID_VARIANT_ID'),
     handleInputErrors,
-    deleteProduct
+    deleteProductVariant
 )
 
 
-
 export default router
\ No newline at end of file
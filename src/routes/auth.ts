@@ -0,0 +1,133 @@
+import { Router } from "express"
+import { body } from "express-validator"
+import { login, register } from "../handlers/auth"
+import { handleInputErrors } from "../middleware"
+import { message } from "../i18n"
+import User from "../models/User.model"
+
+const router = Router()
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          User:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The user ID
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      description: The user name
+ *                      example: Juan
+ *                  email:
+ *                      type: string
+ *                      description: The user email
+ *                      example: correo@correo.com
+ *                  role:
+ *                      type: string
+ *                      description: The user role
+ *                      enum: [admin, editor, viewer]
+ *                      example: editor
+ *          AuthResponse:
+ *              type: object
+ *              properties:
+ *                  data:
+ *                      $ref: '#/components/schemas/User'
+ *                  token:
+ *                      type: string
+ *                      description: The signed JWT to send as a bearer token
+ */
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *  post:
+ *      summary: Registers a new user
+ *      tags:
+ *          - Auth
+ *      description: Creates a viewer user and returns a signed token. Admins are created with the seed or the `create-admin` data command
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          name:
+ *                              type: string
+ *                              example: "Juan"
+ *                          email:
+ *                              type: string
+ *                              example: "correo@correo.com"
+ *                          password:
+ *                              type: string
+ *                              example: "password123"
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/AuthResponse'
+ *          400:
+ *              description: Bad request - invalid input data
+ */
+router.post('/register',
+    body('name').notEmpty().withMessage("USER_NAME_REQUIRED"),
+    body('email')
+        .isEmail().withMessage("INVALID_EMAIL").bail()
+        .custom(async value=>{
+            const user = await User.findOne({where:{email:value}})
+            if(user){
+                throw new Error('EMAIL_TAKEN')
+            }
+        }),
+    body('password').isLength({min:8}).withMessage(message('PASSWORD_TOO_SHORT',{min:8})),
+    handleInputErrors,
+    register
+)
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *  post:
+ *      summary: Authenticates a user
+ *      tags:
+ *          - Auth
+ *      description: Returns a signed token for valid credentials
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          email:
+ *                              type: string
+ *                              example: "correo@correo.com"
+ *                          password:
+ *                              type: string
+ *                              example: "password123"
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/AuthResponse'
+ *          400:
+ *              description: Bad request - invalid input data
+ *          401:
+ *              description: Unauthorized - invalid credentials
+ */
+router.post('/login',
+    body('email').isEmail().withMessage("INVALID_EMAIL"),
+    body('password').notEmpty().withMessage("PASSWORD_REQUIRED"),
+    handleInputErrors,
+    login
+)
+
+export default router
@@ -0,0 +1,65 @@
+import { Router } from "express"
+import { getCacheStats } from "../handlers/cache"
+import { authenticate, authorize } from "../middleware/auth"
+
+const router = Router()
+
+router.use(authenticate,authorize('admin'))
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          CacheRouteStats:
+ *              type: object
+ *              properties:
+ *                  hits:
+ *                      type: integer
+ *                      description: Responses served from the cache
+ *                      example: 120
+ *                  misses:
+ *                      type: integer
+ *                      description: Responses that had to be read from the database
+ *                      example: 30
+ *                  hitRate:
+ *                      type: number
+ *                      description: Share of the responses served from the cache
+ *                      example: 0.8
+ */
+
+/**
+ * @swagger
+ * /api/cache:
+ *  get:
+ *      summary: Get the response cache counters
+ *      tags:
+ *          - Cache
+ *      description: Return the hits and misses of each cached route since the server started
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: object
+ *                                  additionalProperties:
+ *                                      $ref: '#/components/schemas/CacheRouteStats'
+ *                                  example:
+ *                                      products:
+ *                                          hits: 120
+ *                                          misses: 30
+ *                                          hitRate: 0.8
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can see the cache counters
+ */
+
+router.get('/',getCacheStats)
+
+export default router
@@ -0,0 +1,242 @@
+import { Router } from "express"
+import { body, param } from "express-validator"
+import { createCategory, deleteCategory, getCategories, getCategoryById, updateCategory } from "../handlers/category"
+import { handleInputErrors } from "../middleware"
+import { canWrite } from "../middleware/auth"
+import Category from "../models/Category.model"
+
+const router = Router()
+
+const categoryNameIsUnique=async(value:string,{req})=>{
+    const category = await Category.findOne({where:{name:value}})
+    if(category && category.id!==Number(req.params?.id)){
+        throw new Error('CATEGORY_NAME_TAKEN')
+    }
+}
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          Category:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The category ID
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      description: The category name
+ *                      example: Monitores
+ *                  description:
+ *                      type: string
+ *                      description: The category description
+ *                      example: Monitores y pantallas
+ */
+
+/**
+ * @swagger
+ * /api/categories:
+ *      get:
+ *          summary: Get a list of categories
+ *          tags:
+ *              - Categories
+ *          description: Return a list of categories
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/Category'
+ */
+
+router.get('/',getCategories)
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *  get:
+ *      summary: Get a category by ID
+ *      tags:
+ *          - Categories
+ *      description: Return a category based on its unique ID
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the category to retrieve
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      responses:
+ *          200:
+ *              description: Successful Response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Category'
+ *          404:
+ *              description: Not found
+ *          400:
+ *              description: Bad request - Invalid ID
+ */
+
+router.get('/:id',
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    getCategoryById
+)
+
+/**
+ * @swagger
+ * /api/categories:
+ *  post:
+ *      summary: Creates a new category
+ *      tags:
+ *          - Categories
+ *      description: Returns a new record in the database
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          name:
+ *                              type: string
+ *                              example: "Monitores"
+ *                          description:
+ *                              type: string
+ *                              example: "Monitores y pantallas"
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Category'
+ *          400:
+ *              description: Bad request - invalid input data
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+router.post('/',
+    ...canWrite,
+    body('name')
+        .notEmpty().withMessage("CATEGORY_NAME_REQUIRED")
+        .isLength({max:50}).withMessage("CATEGORY_NAME_TOO_LONG")
+        .custom(categoryNameIsUnique),
+    body('description').optional().isString().isLength({max:255}).withMessage("INVALID_DESCRIPTION"),
+    handleInputErrors,
+    createCategory
+)
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *  put:
+ *      summary: Updates a category with user input
+ *      tags:
+ *          - Categories
+ *      description: Returns the updated category
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the category to update
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          name:
+ *                              type: string
+ *                              example: "Monitores --Actualizado"
+ *                          description:
+ *                              type: string
+ *                              example: "Monitores y pantallas"
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Category'
+ *          400:
+ *              description: Bad request - Invalid ID or invalid input data
+ *          404:
+ *              description: Category not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+router.put('/:id',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    body('name')
+        .notEmpty().withMessage("CATEGORY_NAME_REQUIRED")
+        .isLength({max:50}).withMessage("CATEGORY_NAME_TOO_LONG")
+        .custom(categoryNameIsUnique),
+    body('description').optional().isString().isLength({max:255}).withMessage("INVALID_DESCRIPTION"),
+    handleInputErrors,
+    updateCategory
+)
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *  delete:
+ *      summary: Deletes a category by a given ID
+ *      tags:
+ *          - Categories
+ *      description: Returns a confirmation message. Categories that still have products can't be deleted
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the category to delete
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           type: string
+ *                           value: 'Categoria eliminada'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Category not found
+ *          409:
+ *              description: Conflict - The category still has products
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+router.delete('/:id',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    deleteCategory
+)
+
+export default router
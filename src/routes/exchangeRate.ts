@@ -0,0 +1,184 @@
+import { Router } from "express"
+import { body, param } from "express-validator"
+import { deleteExchangeRate, getExchangeRates, saveExchangeRate } from "../handlers/exchangeRate"
+import { handleInputErrors } from "../middleware"
+import { authenticate, authorize } from "../middleware/auth"
+import { onlyKnownFields } from "../validators/product"
+import { decimalPlaces, isCurrency } from "../utils/money"
+import { message } from "../i18n"
+
+const router = Router()
+
+const currencyParamRules=[
+    param('base').custom(isCurrency).withMessage('INVALID_BASE_CURRENCY'),
+    param('quote').custom(isCurrency).withMessage('INVALID_QUOTE_CURRENCY').bail()
+        .custom((value,{req})=>value!==req.params?.base).withMessage('SAME_CURRENCIES')
+]
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          ExchangeRate:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      example: 1
+ *                  base:
+ *                      type: string
+ *                      description: ISO 4217 code of the source currency
+ *                      example: USD
+ *                  quote:
+ *                      type: string
+ *                      description: ISO 4217 code of the target currency
+ *                      example: EUR
+ *                  rate:
+ *                      type: number
+ *                      description: How many units of the quote currency one unit of the base currency is worth
+ *                      example: 0.92
+ */
+
+/**
+ * @swagger
+ * /api/exchange-rates:
+ *  get:
+ *      summary: Get the exchange rates
+ *      tags:
+ *          - Exchange rates
+ *      description: Return every exchange rate. A rate also converts in the opposite direction when that pair is not defined
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/ExchangeRate'
+ */
+
+router.get('/',getExchangeRates)
+
+/**
+ * @swagger
+ * /api/exchange-rates/{base}/{quote}:
+ *  put:
+ *      summary: Creates or updates an exchange rate
+ *      tags:
+ *          - Exchange rates
+ *      description: Sets the rate from the base to the quote currency. Only admins can change the rates
+ *      parameters:
+ *        - in: path
+ *          name: base
+ *          required: true
+ *          schema:
+ *              type: string
+ *              example: USD
+ *        - in: path
+ *          name: quote
+ *          required: true
+ *          schema:
+ *              type: string
+ *              example: EUR
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          rate:
+ *                              type: number
+ *                              example: 0.92
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: The rate was updated
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/ExchangeRate'
+ *          201:
+ *              description: The rate was created
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/ExchangeRate'
+ *          400:
+ *              description: Bad request - Invalid currencies or rate
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can change the rates
+ */
+
+router.put('/:base/:quote',
+    authenticate,
+    authorize('admin'),
+    ...currencyParamRules,
+    body('rate')
+        .isFloat({gt:0}).withMessage('INVALID_EXCHANGE_RATE').bail()
+        .custom(value=>decimalPlaces(value)<=8).withMessage(message('EXCHANGE_RATE_DECIMALS',{max:8}))
+        .toFloat(),
+    onlyKnownFields,
+    handleInputErrors,
+    saveExchangeRate
+)
+
+/**
+ * @swagger
+ * /api/exchange-rates/{base}/{quote}:
+ *  delete:
+ *      summary: Deletes an exchange rate
+ *      tags:
+ *          - Exchange rates
+ *      parameters:
+ *        - in: path
+ *          name: base
+ *          required: true
+ *          schema:
+ *              type: string
+ *              example: USD
+ *        - in: path
+ *          name: quote
+ *          required: true
+ *          schema:
+ *              type: string
+ *              example: EUR
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: string
+ *                                  example: Tipo de cambio eliminado
+ *          400:
+ *              description: Bad request - Invalid currencies
+ *          404:
+ *              description: Exchange rate not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can change the rates
+ */
+
+router.delete('/:base/:quote',
+    authenticate,
+    authorize('admin'),
+    ...currencyParamRules,
+    handleInputErrors,
+    deleteExchangeRate
+)
+
+export default router
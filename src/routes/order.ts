@@ -0,0 +1,336 @@
+import { Router } from "express"
+import { param } from "express-validator"
+import { cancelOrder, createOrder, getOrderById, getOrders, updateOrderStatus } from "../handlers/order"
+import { handleInputErrors } from "../middleware"
+import { authenticate, canWrite } from "../middleware/auth"
+import { paginationRules } from "../validators/product"
+import { createOrderRules, orderFilterRules, orderStatusRule } from "../validators/order"
+
+const router = Router()
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          OrderItem:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The order item ID
+ *                      example: 1
+ *                  productId:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: The ID of the product, or null if it was purged
+ *                      example: 1
+ *                  variantId:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: The ID of the ordered variant, or null for products without variants or deleted variants
+ *                      example: 3
+ *                  sku:
+ *                      type: string
+ *                      nullable: true
+ *                      description: The variant SKU when the order was placed
+ *                      example: MONITOR-49-NEGRO
+ *                  productName:
+ *                      type: string
+ *                      description: The product name when the order was placed
+ *                      example: Monitor Curvo de 49 pulgadas
+ *                  unitPrice:
+ *                      type: number
+ *                      description: The product price, or the variant price if it has its own, when the order was placed
+ *                      example: 300
+ *                  quantity:
+ *                      type: integer
+ *                      example: 2
+ *                  subtotal:
+ *                      type: number
+ *                      example: 600
+ *          Order:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The order ID
+ *                      example: 1
+ *                  userId:
+ *                      type: integer
+ *                      description: The ID of the user that placed the order
+ *                      example: 1
+ *                  status:
+ *                      type: string
+ *                      enum: [pending, paid, shipped, cancelled]
+ *                      description: The order status
+ *                      example: pending
+ *                  total:
+ *                      type: number
+ *                      description: The sum of the item subtotals
+ *                      example: 600
+ *                  currency:
+ *                      type: string
+ *                      description: ISO 4217 code shared by every item of the order
+ *                      example: USD
+ *                  items:
+ *                      type: array
+ *                      items:
+ *                          $ref: '#/components/schemas/OrderItem'
+ *                  createdAt:
+ *                      type: string
+ *                      format: date-time
+ *                      description: When the order was placed
+ */
+
+/**
+ * @swagger
+ * /api/orders:
+ *  get:
+ *      summary: Get a list of orders
+ *      tags:
+ *          - Orders
+ *      description: Return a paginated list of orders, newest first. Admins and editors see every order, other users only their own
+ *      parameters:
+ *        - in: query
+ *          name: status
+ *          schema:
+ *              type: string
+ *              enum: [pending, paid, shipped, cancelled]
+ *        - in: query
+ *          name: userId
+ *          description: Only for admins and editors
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: page
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              default: 1
+ *        - in: query
+ *          name: limit
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              maximum: 100
+ *              default: 10
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/Order'
+ *                              meta:
+ *                                  $ref: '#/components/schemas/PageMeta'
+ *          400:
+ *              description: Bad request - Invalid query parameters
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ */
+
+router.get('/',
+    authenticate,
+    ...orderFilterRules,
+    ...paginationRules,
+    handleInputErrors,
+    getOrders
+)
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *  get:
+ *      summary: Get an order by ID
+ *      tags:
+ *          - Orders
+ *      description: Return an order with its items. Users that aren't admins or editors can only see their own orders
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the order to retrieve
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Order'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Order not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ */
+
+router.get('/:id',
+    authenticate,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    getOrderById
+)
+
+/**
+ * @swagger
+ * /api/orders:
+ *  post:
+ *      summary: Places a new order
+ *      tags:
+ *          - Orders
+ *      description: Creates a pending order for the authenticated user. Prices are copied from the products, so later price changes don't affect the order. The ordered units are taken from the product stock. Products with variants are ordered by variant, at the variant price when it has its own. Fails if any product or variant is unavailable or the product doesn't have enough stock
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          items:
+ *                              type: array
+ *                              items:
+ *                                  type: object
+ *                                  properties:
+ *                                      productId:
+ *                                          type: integer
+ *                                          example: 1
+ *                                      variantId:
+ *                                          type: integer
+ *                                          description: Required for products with variants
+ *                                          example: 3
+ *                                      quantity:
+ *                                          type: integer
+ *                                          example: 2
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           $ref: '#/components/schemas/Order'
+ *          400:
+ *              description: Bad request - Invalid input data, products or variants that don't exist, or a product with variants ordered without a variant
+ *          409:
+ *              description: Conflict - Some products or variants are not available or don't have enough stock
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ */
+
+router.post('/',
+    authenticate,
+    ...createOrderRules,
+    handleInputErrors,
+    createOrder
+)
+
+/**
+ * @swagger
+ * /api/orders/{id}/cancel:
+ *  post:
+ *      summary: Cancels an order
+ *      tags:
+ *          - Orders
+ *      description: Cancels a pending or paid order and returns its units to the product stock. Users that aren't admins or editors can only cancel their own orders
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the order to cancel
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Order'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Order not found
+ *          409:
+ *              description: Conflict - The order was already shipped or cancelled
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ */
+
+router.post('/:id/cancel',
+    authenticate,
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    cancelOrder
+)
+
+/**
+ * @swagger
+ * /api/orders/{id}/status:
+ *  patch:
+ *      summary: Changes the status of an order
+ *      tags:
+ *          - Orders
+ *      description: Moves the order along its lifecycle. A pending order can be paid or cancelled, a paid order can be shipped or cancelled, and shipped or cancelled orders can't change. Cancelling returns the units to the product stock
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the order to update
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          status:
+ *                              type: string
+ *                              enum: [pending, paid, shipped, cancelled]
+ *                              example: paid
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/Order'
+ *          400:
+ *              description: Bad request - Invalid ID or status
+ *          404:
+ *              description: Order not found
+ *          409:
+ *              description: Conflict - The order can't move to that status
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - The user role can't modify this resource
+ */
+
+router.patch('/:id/status',
+    ...canWrite,
+    param('id').isInt().withMessage('INVALID_ID'),
+    orderStatusRule,
+    handleInputErrors,
+    updateOrderStatus
+)
+
+export default router
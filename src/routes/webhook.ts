@@ -0,0 +1,451 @@
+import { Router } from "express"
+import { body, param, query } from "express-validator"
+import { createWebhook, deleteWebhook, getWebhookById, getWebhookDeliveries, getWebhooks, retryWebhookDelivery, updateWebhook } from "../handlers/webhook"
+import { handleInputErrors } from "../middleware"
+import { authenticate, authorize } from "../middleware/auth"
+import { WEBHOOK_EVENTS } from "../models/WebhookSubscription.model"
+import { WEBHOOK_DELIVERY_STATUSES } from "../models/WebhookDelivery.model"
+import { nonEmptyBody, onlyKnownFields, paginationRules } from "../validators/product"
+
+const router = Router()
+
+// Los webhooks envian datos a sistemas externos, solo los administradores los gestionan
+router.use(authenticate,authorize('admin'))
+
+const webhookUrlRule=()=>body('url')
+    .isURL({protocols:['http','https'],require_protocol:true,require_tld:false}).withMessage('INVALID_URL')
+    .isLength({max:2048}).withMessage('URL_TOO_LONG')
+
+const webhookEventsRule=()=>body('events')
+    .isArray({min:1}).withMessage('WEBHOOK_EVENTS_REQUIRED').bail()
+    .custom(events=>events.every(event=>WEBHOOK_EVENTS.includes(event))).withMessage('INVALID_WEBHOOK_EVENT')
+
+const webhookDescriptionRule=body('description').optional({values:'null'})
+    .isString().withMessage('INVALID_DESCRIPTION').bail()
+    .isLength({max:255}).withMessage('DESCRIPTION_TOO_LONG')
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          WebhookSubscription:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The subscription ID
+ *                      example: 1
+ *                  url:
+ *                      type: string
+ *                      description: Where the events are sent with a POST request
+ *                      example: https://erp.tienda.com/webhooks/productos
+ *                  events:
+ *                      type: array
+ *                      items:
+ *                          type: string
+ *                          enum: [product.created, product.updated, product.deleted, product.restored, product.availability_changed]
+ *                      example: [product.created, product.updated]
+ *                  description:
+ *                      type: string
+ *                      nullable: true
+ *                      example: Sincronizacion con el ERP
+ *                  active:
+ *                      type: boolean
+ *                      description: Inactive subscriptions don't receive events
+ *                      example: true
+ *          WebhookDelivery:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The delivery ID, sent in the X-Webhook-Delivery header
+ *                      example: 1
+ *                  subscriptionId:
+ *                      type: integer
+ *                      example: 1
+ *                  event:
+ *                      type: string
+ *                      example: product.updated
+ *                  payload:
+ *                      type: object
+ *                      description: The body sent to the receiver
+ *                      example: {"id": "9b2f6a43-1c1e-4d55-a0f5-4f3b7f2d8c11", "event": "product.updated", "createdAt": "2024-11-05T10:00:00.000Z", "data": {"id": 1, "name": "Monitor Curvo de 49 pulgadas", "price": 300}}
+ *                  status:
+ *                      type: string
+ *                      enum: [pending, succeeded, failed]
+ *                      example: succeeded
+ *                  attempts:
+ *                      type: integer
+ *                      example: 1
+ *                  responseStatus:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: The HTTP status of the last attempt
+ *                      example: 200
+ *                  error:
+ *                      type: string
+ *                      nullable: true
+ *                      description: Why the last attempt failed
+ *                  nextAttemptAt:
+ *                      type: string
+ *                      format: date-time
+ *                      nullable: true
+ *                  deliveredAt:
+ *                      type: string
+ *                      format: date-time
+ *                      nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *  get:
+ *      summary: Get a list of webhook subscriptions
+ *      tags:
+ *          - Webhooks
+ *      description: Return every webhook subscription. Only admins can manage webhooks
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/WebhookSubscription'
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.get('/',getWebhooks)
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *  get:
+ *      summary: Get a webhook subscription by ID
+ *      tags:
+ *          - Webhooks
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the subscription
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/WebhookSubscription'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Subscription not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.get('/:id',
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    getWebhookById
+)
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *  post:
+ *      summary: Creates a webhook subscription
+ *      tags:
+ *          - Webhooks
+ *      description: |
+ *          Subscribes a URL to product events. The response includes the `secret` used to sign the deliveries; it is only shown once.
+ *          Every delivery is a JSON POST with the headers `X-Webhook-Event`, `X-Webhook-Delivery` and `X-Webhook-Signature: t=<unix timestamp>,v1=<signature>`,
+ *          where the signature is the hex HMAC-SHA256 of `<timestamp>.<body>` with the secret. Any response other than 2xx is retried with exponential backoff
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          url:
+ *                              type: string
+ *                              example: https://erp.tienda.com/webhooks/productos
+ *                          events:
+ *                              type: array
+ *                              items:
+ *                                  type: string
+ *                              example: [product.created, product.updated, product.deleted]
+ *                          description:
+ *                              type: string
+ *                              example: Sincronizacion con el ERP
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          201:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          allOf:
+ *                              - $ref: '#/components/schemas/WebhookSubscription'
+ *                              - type: object
+ *                                properties:
+ *                                  secret:
+ *                                      type: string
+ *                                      example: 5f0c1b8e2d7a4f6e9c3b1a0d8e7f6c5b4a3d2e1f0c9b8a7d6e5f4c3b2a1d0e9f
+ *          400:
+ *              description: Bad request - Invalid input data
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.post('/',
+    webhookUrlRule(),
+    webhookEventsRule(),
+    webhookDescriptionRule,
+    onlyKnownFields,
+    handleInputErrors,
+    createWebhook
+)
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *  patch:
+ *      summary: Updates a webhook subscription
+ *      tags:
+ *          - Webhooks
+ *      description: Changes only the fields sent. Set active to false to pause the deliveries
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the subscription
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      requestBody:
+ *          required: true
+ *          content:
+ *              application/json:
+ *                  schema:
+ *                      type: object
+ *                      properties:
+ *                          url:
+ *                              type: string
+ *                          events:
+ *                              type: array
+ *                              items:
+ *                                  type: string
+ *                          description:
+ *                              type: string
+ *                              nullable: true
+ *                          active:
+ *                              type: boolean
+ *                              example: false
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/WebhookSubscription'
+ *          400:
+ *              description: Bad request - Invalid ID or invalid input data
+ *          404:
+ *              description: Subscription not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.patch('/:id',
+    param('id').isInt().withMessage('INVALID_ID'),
+    webhookUrlRule().optional(),
+    webhookEventsRule().optional(),
+    webhookDescriptionRule,
+    body('active').optional().isBoolean({strict:true}).withMessage('INVALID_STATUS'),
+    onlyKnownFields,
+    nonEmptyBody,
+    handleInputErrors,
+    updateWebhook
+)
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *  delete:
+ *      summary: Deletes a webhook subscription
+ *      tags:
+ *          - Webhooks
+ *      description: Removes the subscription and its delivery log
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the subscription
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                           type: string
+ *                           value: 'Webhook eliminado'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Subscription not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.delete('/:id',
+    param('id').isInt().withMessage('INVALID_ID'),
+    handleInputErrors,
+    deleteWebhook
+)
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *  get:
+ *      summary: Get the delivery log of a webhook subscription
+ *      tags:
+ *          - Webhooks
+ *      description: Return a paginated list of deliveries, newest first
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the subscription
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: query
+ *          name: status
+ *          schema:
+ *              type: string
+ *              enum: [pending, succeeded, failed]
+ *        - in: query
+ *          name: page
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              default: 1
+ *        - in: query
+ *          name: limit
+ *          schema:
+ *              type: integer
+ *              minimum: 1
+ *              maximum: 100
+ *              default: 10
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          200:
+ *              description: Successful response
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              data:
+ *                                  type: array
+ *                                  items:
+ *                                      $ref: '#/components/schemas/WebhookDelivery'
+ *                              meta:
+ *                                  $ref: '#/components/schemas/PageMeta'
+ *          400:
+ *              description: Bad request - Invalid ID or query parameters
+ *          404:
+ *              description: Subscription not found
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.get('/:id/deliveries',
+    param('id').isInt().withMessage('INVALID_ID'),
+    query('status').optional().isIn(WEBHOOK_DELIVERY_STATUSES).withMessage('INVALID_STATUS'),
+    ...paginationRules,
+    handleInputErrors,
+    getWebhookDeliveries
+)
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries/{deliveryId}/retry:
+ *  post:
+ *      summary: Retries a failed delivery
+ *      tags:
+ *          - Webhooks
+ *      description: Queues a delivery that ran out of attempts to be sent again, with a new set of attempts
+ *      parameters:
+ *        - in: path
+ *          name: id
+ *          description: The ID of the subscription
+ *          required: true
+ *          schema:
+ *              type: integer
+ *        - in: path
+ *          name: deliveryId
+ *          description: The ID of the delivery
+ *          required: true
+ *          schema:
+ *              type: integer
+ *      security:
+ *          - bearerAuth: []
+ *      responses:
+ *          202:
+ *              description: The delivery was queued
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/WebhookDelivery'
+ *          400:
+ *              description: Bad request - Invalid ID
+ *          404:
+ *              description: Subscription or delivery not found
+ *          409:
+ *              description: Conflict - The delivery didn't fail
+ *          401:
+ *              description: Unauthorized - Missing or invalid token
+ *          403:
+ *              description: Forbidden - Only admins can manage webhooks
+ */
+
+router.post('/:id/deliveries/:deliveryId/retry',
+    param('id').isInt().withMessage('INVALID_ID'),
+    param('deliveryId').isInt().withMessage('INVALID_DELIVERY_ID'),
+    handleInputErrors,
+    retryWebhookDelivery
+)
+
+export default router
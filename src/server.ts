@@ -1,44 +1,103 @@
 import express  from "express";
 import router from "./router";
+import categoryRouter from "./routes/category";
+import authRouter from "./routes/auth";
+import orderRouter from "./routes/order";
+import webhookRouter from "./routes/webhook";
+import exchangeRateRouter from "./routes/exchangeRate";
+import cacheRouter from "./routes/cache";
 import cors,{CorsOptions} from 'cors'
+import helmet from "helmet";
 import swaggerUi from 'swagger-ui-express'
-import morgan from "morgan";
 import swaggerSpec ,{swaggerUiOptions} from "./config/swagger";
 import db from "./config/db";
-import colors from 'colors'
-
-export async function connectDB() {
-    try {
-        await db.authenticate()
-        db.sync()
-        //console.log(colors.bold.blue('Conexion exitosa a la base de datos'))
-    } catch (error) {
-        
-        console.log(colors.bold.red('Hubo un error al conectar a la base de datos'))
+import config from "./config/env";
+import { ForbiddenError } from "./errors";
+import { errorHandler, notFoundHandler } from "./middleware";
+import { requestContext } from "./utils/requestContext";
+import { getHealth, getReadiness } from "./handlers/health";
+import { httpLogger } from "./middleware/logger";
+import { detectLocale } from "./middleware/locale";
+import { createRateLimiters } from "./middleware/rateLimit";
+import logger from "./utils/logger";
+import { LOCAL_FILES_PATH } from "./storage";
+import productCache from "./cache";
+import { createMetrics } from "./metrics";
+
+const wait=(ms:number)=>new Promise(resolve=>setTimeout(resolve,ms))
+
+export async function connectDB(retries=config.dbConnectRetries,delay=1000) {
+    for(let attempt=1;attempt<=retries;attempt++){
+        try {
+            await db.authenticate()
+            logger.info('Conexion exitosa a la base de datos')
+            return true
+        } catch (error) {
+            logger.error({err:error,attempt,retries},'Hubo un error al conectar a la base de datos')
+            if(attempt<retries){
+                await wait(delay*2**(attempt-1))
+            }
+        }
     }
+    return false
 }
 
-connectDB()
-
 const server = express()
 
+server.set('trust proxy',config.trustProxy)
+server.use(httpLogger)
+server.use(helmet({
+    contentSecurityPolicy:{
+        directives:{
+            // Logo personalizado de la documentacion
+            'img-src':["'self'",'data:','https://codigoconjuan.com']
+        }
+    }
+}))
+// Imagenes del almacenamiento local; el frontend las carga desde otro origen
+server.use(LOCAL_FILES_PATH,express.static(config.uploadDir,{
+    index:false,
+    setHeaders:res=>res.set('Cross-Origin-Resource-Policy','cross-origin')
+}))
+server.get('/health',getHealth)
+server.get('/ready',getReadiness)
+// Las metricas se registran despues de /metrics y /health para no contar las consultas de Prometheus
+if(config.metrics.enabled){
+    const metrics=createMetrics(db,productCache)
+    server.get('/metrics',metrics.getMetrics)
+    server.use(metrics.trackRequests)
+}
 
 const corsOptions:CorsOptions={
     origin:function(origin,callback){
-        if(origin===process.env.FRONTEND_URL){
+        // Las peticiones sin Origin (curl, otros servidores) no estan sujetas a CORS
+        if(!origin || config.corsOrigins.includes(origin)){
             callback(null,true)
         }else{
-            callback(new Error('Error de CORS'))
+            callback(new ForbiddenError('CORS_ORIGIN_NOT_ALLOWED'))
         }
     }
 }
 
 server.use(cors(corsOptions))
 
-server.use(express.json())
-server.use(morgan('dev'))
+server.use('/api',createRateLimiters())
+// Las importaciones y operaciones en lote llegan con cientos de productos
+server.use(['/api/products/import','/api/products/bulk'],express.json({limit:config.importBodyLimit}))
+server.use(express.json({limit:config.bodyLimit}))
+server.use(requestContext)
+server.use(detectLocale)
+server.use('/api/auth',authRouter)
 server.use('/api/products',router)
+server.use('/api/categories',categoryRouter)
+server.use('/api/orders',orderRouter)
+server.use('/api/webhooks',webhookRouter)
+server.use('/api/exchange-rates',exchangeRateRouter)
+server.use('/api/cache',cacheRouter)
 
 server.use('/docs',swaggerUi.serve,swaggerUi.setup(swaggerSpec,swaggerUiOptions))
 
+server.use(notFoundHandler)
+server.use(errorHandler)
+
 export default server
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createLocalStorage } from '../local'
+
+describe('createLocalStorage',()=>{
+    let root:string
+
+    beforeEach(async()=>{
+        root=await mkdtemp(path.join(os.tmpdir(),'storage-'))
+    })
+    afterEach(async()=>{
+        await rm(root,{recursive:true,force:true})
+    })
+
+    it('should save and remove files by key',async()=>{
+        const storage=createLocalStorage(root,'/uploads')
+        await storage.save('products/1/foto.png',Buffer.from('imagen'),'image/png')
+        expect(await readFile(path.join(root,'products/1/foto.png'),'utf8')).toBe('imagen')
+        expect(storage.url('products/1/foto.png')).toBe('/uploads/products/1/foto.png')
+        await storage.remove('products/1/foto.png')
+        await expect(readFile(path.join(root,'products/1/foto.png'))).rejects.toThrow()
+    })
+    it('should ignore files that no longer exist',async()=>{
+        const storage=createLocalStorage(root,'/uploads')
+        await expect(storage.remove('products/1/nada.png')).resolves.toBeUndefined()
+    })
+    it('should reject keys outside of its folder',async()=>{
+        const storage=createLocalStorage(root,'/uploads')
+        await expect(storage.save('../fuera.png',Buffer.from('imagen'),'image/png')).rejects.toThrow('Clave de archivo no valida')
+    })
+})
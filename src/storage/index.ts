@@ -0,0 +1,15 @@
+import config from '../config/env'
+import { createLocalStorage } from './local'
+
+// Cualquier almacenamiento (disco local, S3 compatible...) que guarde archivos por clave
+export interface FileStorage{
+    save(key:string,data:Buffer,contentType:string):Promise<void>
+    remove(key:string):Promise<void>
+    url(key:string):string
+}
+
+export const LOCAL_FILES_PATH='/uploads'
+
+const storage:FileStorage=createLocalStorage(config.uploadDir,LOCAL_FILES_PATH)
+
+export default storage
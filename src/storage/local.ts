@@ -0,0 +1,26 @@
+import { mkdir, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import type { FileStorage } from '.'
+
+export const createLocalStorage=(root:string,baseUrl:string):FileStorage=>{
+    const resolve=(key:string)=>{
+        const file=path.resolve(root,key)
+        if(!file.startsWith(path.resolve(root)+path.sep)){
+            throw new Error(`Clave de archivo no valida: ${key}`)
+        }
+        return file
+    }
+    return {
+        async save(key,data){
+            const file=resolve(key)
+            await mkdir(path.dirname(file),{recursive:true})
+            await writeFile(file,data)
+        },
+        async remove(key){
+            await rm(resolve(key),{force:true})
+        },
+        url(key){
+            return `${baseUrl}/${key}`
+        }
+    }
+}
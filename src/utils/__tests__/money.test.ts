@@ -0,0 +1,30 @@
+import { convertAmount, currencyDecimals, decimalPlaces, isCurrency, roundAmount } from '../money'
+
+describe('money',()=>{
+    it('should know the decimal places of every currency',()=>{
+        expect(currencyDecimals('USD')).toBe(2)
+        expect(currencyDecimals('JPY')).toBe(0)
+        expect(currencyDecimals('KWD')).toBe(3)
+    })
+    it('should only accept ISO 4217 currency codes',()=>{
+        expect(isCurrency('MXN')).toBe(true)
+        expect(isCurrency('XYZ')).toBe(false)
+        expect(isCurrency('usd')).toBe(false)
+    })
+    it('should count the significant decimal places of a value',()=>{
+        expect(decimalPlaces(10)).toBe(0)
+        expect(decimalPlaces('10.50')).toBe(1)
+        expect(decimalPlaces(49.99)).toBe(2)
+        expect(decimalPlaces(1e-7)).toBe(7)
+    })
+    it('should round amounts to the decimals of the currency',()=>{
+        expect(roundAmount(1.005,'USD')).toBe(1.01)
+        expect(roundAmount(0.1+0.2,'USD')).toBe(0.3)
+        expect(roundAmount(1234.5,'JPY')).toBe(1235)
+        expect(roundAmount(1.23456,'KWD')).toBe(1.235)
+    })
+    it('should convert amounts with an exchange rate',()=>{
+        expect(convertAmount(49.99,17.25,'MXN')).toBe(862.33)
+        expect(convertAmount(300,0.0067,'USD')).toBe(2.01)
+    })
+})
@@ -0,0 +1,22 @@
+import { escapeLike, toPrefixTsQuery } from '../search'
+
+describe('toPrefixTsQuery',()=>{
+    it('should match every term as a prefix',()=>{
+        expect(toPrefixTsQuery('monitor curvo')).toBe('monitor:* & curvo:*')
+    })
+    it('should keep accented letters and drop tsquery operators',()=>{
+        expect(toPrefixTsQuery("  audífonos & (inalámbricos) | !'")).toBe('audífonos:* & inalámbricos:*')
+    })
+    it('should return an empty query when there are no terms',()=>{
+        expect(toPrefixTsQuery(' & ! ')).toBe('')
+    })
+})
+
+describe('escapeLike',()=>{
+    it('should escape the LIKE wildcards',()=>{
+        expect(escapeLike('100%_a\\b')).toBe('100\\%\\_a\\\\b')
+    })
+    it('should keep the rest of the text',()=>{
+        expect(escapeLike('monitor curvo')).toBe('monitor curvo')
+    })
+})
@@ -0,0 +1,39 @@
+import sharp from 'sharp'
+
+export const IMAGE_TYPES=['image/jpeg','image/png','image/webp']
+export const THUMBNAIL_SIZE=300
+
+const FORMATS:Record<string,string>={jpeg:'image/jpeg',png:'image/png',webp:'image/webp'}
+
+export type ProcessedImage={
+    contentType:string
+    width:number
+    height:number
+    thumbnail:Buffer
+}
+
+// Lee el contenido real del archivo; devuelve null si no es una imagen admitida
+export const processImage=async(data:Buffer):Promise<ProcessedImage | null>=>{
+    try {
+        const{format,width,height,orientation}=await sharp(data).metadata()
+        const contentType=format && FORMATS[format]
+        if(!contentType || !width || !height){
+            return null
+        }
+        // Las orientaciones 5 a 8 giran la imagen 90 grados
+        const rotated=orientation!==undefined && orientation>=5
+        const thumbnail=await sharp(data)
+            .rotate()
+            .resize(THUMBNAIL_SIZE,THUMBNAIL_SIZE,{fit:'inside',withoutEnlargement:true})
+            .webp()
+            .toBuffer()
+        return {
+            contentType,
+            width:rotated ? height : width,
+            height:rotated ? width : height,
+            thumbnail
+        }
+    } catch {
+        return null
+    }
+}
@@ -0,0 +1,18 @@
+import jwt from 'jsonwebtoken'
+import config from '../config/env'
+import type { UserRole } from '../models/User.model'
+
+export type AuthPayload={
+    id:number
+    role:UserRole
+}
+
+export const generateJWT=(payload:AuthPayload)=>{
+    return jwt.sign(payload,config.jwtSecret,{
+        expiresIn:config.jwtExpiresIn
+    } as jwt.SignOptions)
+}
+
+export const verifyJWT=(token:string)=>{
+    return jwt.verify(token,config.jwtSecret) as AuthPayload
+}
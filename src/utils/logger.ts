@@ -0,0 +1,14 @@
+import pino from 'pino'
+import config from '../config/env'
+
+const logger=pino({
+    level:config.logLevel,
+    ...(config.env==='development' && {
+        transport:{
+            target:'pino-pretty',
+            options:{colorize:true,translateTime:'SYS:HH:MM:ss',ignore:'pid,hostname'}
+        }
+    })
+})
+
+export default logger
@@ -0,0 +1,32 @@
+// Los importes se guardan como DECIMAL exactos; estas funciones redondean segun la moneda
+
+const CURRENCIES=new Set(Intl.supportedValuesOf('currency'))
+
+export const isCurrency=(code:string)=>CURRENCIES.has(code)
+
+// Decimales de la moneda segun ISO 4217: USD 2, JPY 0, KWD 3...
+export const currencyDecimals=(currency:string)=>
+    new Intl.NumberFormat('en',{style:'currency',currency}).resolvedOptions().maximumFractionDigits
+
+export const decimalPlaces=(value:unknown)=>{
+    const match=/^[-+]?\d*(?:\.(\d+))?(?:e([-+]?\d+))?$/i.exec(String(value).trim())
+    if(!match){
+        return 0
+    }
+    const[,fraction='',exponent='0']=match
+    return Math.max(0,fraction.replace(/0+$/,'').length-Number(exponent))
+}
+
+export const roundAmount=(value:number,currency:string)=>{
+    const factor=10**currencyDecimals(currency)
+    // toPrecision elimina el ruido de coma flotante (1.005*100 = 100.49999...)
+    return Math.round(Number((value*factor).toPrecision(15)))/factor
+}
+
+export const convertAmount=(amount:number,rate:number,currency:string)=>roundAmount(amount*rate,currency)
+
+// Postgres devuelve las columnas DECIMAL como texto; la API las expone como numeros
+export const decimalGetter=(field:string)=>function(this:{getDataValue(key:string):unknown}){
+    const value=this.getDataValue(field)
+    return value===null || value===undefined ? value : Number(value)
+}
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import {Request,Response,NextFunction} from 'express'
+import type { Locale } from '../i18n'
+
+type RequestContext={
+    userId?:number
+    locale?:Locale
+}
+
+const storage=new AsyncLocalStorage<RequestContext>()
+
+export const requestContext=(req:Request,res:Response,next:NextFunction)=>{
+    storage.run({},next)
+}
+
+export const getRequestContext=():RequestContext=>storage.getStore() ?? {}
@@ -0,0 +1,10 @@
+// "monitor curvo" -> "monitor:* & curvo:*" para sugerir mientras se escribe
+export const toPrefixTsQuery=(text:string)=>text
+    .split(/\s+/)
+    .map(term=>term.replace(/[^\p{L}\p{N}]/gu,''))
+    .filter(Boolean)
+    .map(term=>`${term}:*`)
+    .join(' & ')
+
+// Los comodines de LIKE (% y _) que escribe el usuario se buscan literalmente
+export const escapeLike=(text:string)=>text.replace(/[\\%_]/g,character=>`\\${character}`)
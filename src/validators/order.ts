@@ -0,0 +1,25 @@
+import { body, query } from "express-validator"
+import { ORDER_STATUSES } from "../models/Order.model"
+import { message } from "../i18n"
+
+export const MAX_ORDER_ITEMS=50
+
+export const createOrderRules=[
+    body('items')
+        .isArray({min:1,max:MAX_ORDER_ITEMS}).withMessage(message('ORDER_ITEMS_SIZE',{max:MAX_ORDER_ITEMS}))
+        .bail()
+        .custom((items:{productId?:unknown,variantId?:unknown}[])=>{
+            const keys=items.map(item=>`${Number(item?.productId)}-${Number(item?.variantId ?? 0)}`)
+            return new Set(keys).size===keys.length
+        }).withMessage('ORDER_DUPLICATE_PRODUCT'),
+    body('items.*.productId').isInt({min:1}).withMessage('INVALID_PRODUCT').toInt(),
+    body('items.*.variantId').optional().isInt({min:1}).withMessage('INVALID_VARIANT_ID').toInt(),
+    body('items.*.quantity').isInt({min:1,max:1000}).withMessage('INVALID_QUANTITY').toInt()
+]
+
+export const orderFilterRules=[
+    query('status').optional().isIn(ORDER_STATUSES).withMessage('INVALID_STATUS'),
+    query('userId').optional().isInt().withMessage('INVALID_USER').toInt()
+]
+
+export const orderStatusRule=body('status').isIn(ORDER_STATUSES).withMessage('INVALID_STATUS')
@@ -0,0 +1,137 @@
+import { body, checkExact, ContextRunner, matchedData, query, validationResult } from "express-validator"
+import config from "../config/env"
+import Category from "../models/Category.model"
+import Product from "../models/Product.model"
+import { message } from "../i18n"
+import { currencyDecimals, decimalPlaces, isCurrency } from "../utils/money"
+
+export const SORTABLE_COLUMNS=['id','name','price','availability','createdAt','updatedAt']
+
+export const SORT_OPTIONS=SORTABLE_COLUMNS.flatMap(column=>[column,`-${column}`])
+
+const categoryExists=async(value:number)=>{
+    const category = await Category.findByPk(value)
+    if(!category){
+        throw new Error('CATEGORY_NOT_FOUND')
+    }
+}
+
+// El precio no puede tener mas decimales que su moneda (la del cuerpo, la del producto o la moneda por defecto)
+export const priceFitsCurrency=async(value:unknown,{req})=>{
+    if(isNaN(Number(value)) || decimalPlaces(value)===0){
+        return true
+    }
+    let currency=req.body?.currency
+    if(!currency && req.params?.id){
+        const product = await Product.findByPk(req.params.id,{attributes:['currency']})
+        currency=product?.currency
+    }
+    currency=isCurrency(currency) ? currency : config.defaultCurrency
+    if(decimalPlaces(value)>currencyDecimals(currency)){
+        throw message('PRICE_DECIMALS',{decimals:currencyDecimals(currency),currency})
+    }
+    return true
+}
+
+// Relaciones opcionales que se pueden pedir con ?include=variants
+export const PRODUCT_INCLUDES=['variants']
+
+export const productIncludeRule=query('include').optional()
+    .custom(value=>String(value).split(',').every(item=>PRODUCT_INCLUDES.includes(item.trim())))
+    .withMessage(message('INVALID_INCLUDE',{includes:PRODUCT_INCLUDES.join(', ')}))
+
+export const paginationRules=[
+    query('page').optional().isInt({min:1}).withMessage('INVALID_PAGE').toInt(),
+    query('limit').optional().isInt({min:1,max:100}).withMessage('INVALID_LIMIT').toInt()
+]
+
+export const productFilterRules=[
+    query('availability').optional().isBoolean().withMessage('INVALID_AVAILABILITY').toBoolean(),
+    query('minPrice').optional().isFloat({min:0}).withMessage('INVALID_MIN_PRICE').toFloat(),
+    query('maxPrice').optional().isFloat({min:0}).withMessage('INVALID_MAX_PRICE').toFloat()
+        .custom((value,{req})=>req.query.minPrice===undefined || value>=req.query.minPrice)
+        .withMessage('INVALID_PRICE_RANGE'),
+    query('categoryId').optional().isInt().withMessage('INVALID_CATEGORY').toInt(),
+    query('search').optional().isString().trim(),
+    query('sort').optional().isIn(SORT_OPTIONS).withMessage('INVALID_SORT')
+]
+
+export const onlyKnownFields=checkExact([],{
+    locations:['body'],
+    message:'UNKNOWN_FIELDS'
+})
+
+export const productNameRule=body('name').notEmpty().withMessage("PRODUCT_NAME_REQUIRED")
+
+export const productDescriptionRule=body('description').optional({values:'null'})
+    .isString().withMessage("INVALID_DESCRIPTION").bail()
+    .isLength({max:1000}).withMessage("DESCRIPTION_TOO_LONG")
+
+export const productPriceRule=body('price')
+    .isNumeric().withMessage("INVALID_VALUE")
+    .notEmpty().withMessage("PRICE_REQUIRED")
+    .custom(value=>value>0).withMessage("INVALID_PRICE")
+    .custom(priceFitsCurrency)
+
+export const productCurrencyRule=body('currency').optional()
+    .custom(isCurrency).withMessage("INVALID_CURRENCY")
+
+export const currencyQueryRule=query('currency').optional()
+    .custom(isCurrency).withMessage("INVALID_CURRENCY")
+
+export const productCategoryRule=body('categoryId').optional({values:'null'})
+    .isInt().withMessage("INVALID_CATEGORY").bail()
+    .custom(categoryExists)
+
+// El stock inicial se registra como movimiento; despues solo cambia con /api/products/:id/stock
+export const productStockRule=body('stock').optional()
+    .isInt({min:0}).withMessage("INVALID_STOCK").toInt()
+
+// Un producto nuevo se puede crear sin vender aunque tenga stock, pero no disponible sin stock
+export const initialAvailabilityRule=body('availability').optional()
+    .isBoolean({strict:true}).withMessage("INVALID_AVAILABILITY").bail()
+    .custom((value,{req})=>!value || Number(req.body.stock)>0).withMessage("AVAILABILITY_REQUIRES_STOCK")
+
+export const createProductRules=[
+    productNameRule,
+    productDescriptionRule,
+    productPriceRule,
+    productCurrencyRule,
+    productStockRule,
+    initialAvailabilityRule,
+    productCategoryRule
+]
+
+// Debe ir despues de onlyKnownFields: valida el cuerpo completo y checkExact lo tomaria como campo conocido
+export const nonEmptyBody=body()
+    .custom(value=>typeof value==='object' && value!==null && !Array.isArray(value) && Object.keys(value).length>0)
+    .withMessage("EMPTY_UPDATE")
+
+export const patchProductRules=[
+    body('name').optional()
+        .notEmpty().withMessage("PRODUCT_NAME_REQUIRED"),
+    productDescriptionRule,
+    body('price').optional()
+        .isNumeric().withMessage("INVALID_VALUE")
+        .custom(value=>value>0).withMessage("INVALID_PRICE")
+        .custom(priceFitsCurrency),
+    productCurrencyRule,
+    body('availability').optional()
+        .isBoolean({strict:true}).withMessage("INVALID_AVAILABILITY"),
+    productCategoryRule
+]
+
+export const productAvailabilityRule=body('availability')
+    .isBoolean({strict:true}).withMessage("INVALID_AVAILABILITY")
+
+// Aplica las reglas de una ruta a datos que no llegan como cuerpo de la peticion (filas importadas, operaciones en lote)
+export const runRules=async(rules:ContextRunner[],data:unknown,params:Record<string,unknown>={})=>{
+    const context={body:data,params}
+    for(const rule of rules){
+        await rule.run(context)
+    }
+    const errors=validationResult(context)
+    return errors.isEmpty()
+        ? {values:matchedData(context),errors:[]}
+        : {values:null,errors:errors.array()}
+}
@@ -0,0 +1,49 @@
+import { body } from "express-validator"
+import { message } from "../i18n"
+import { priceFitsCurrency } from "./product"
+
+export const MAX_VARIANT_OPTIONS=10
+
+const isVariantOptions=(value:unknown)=>{
+    if(typeof value!=='object' || value===null || Array.isArray(value)){
+        return false
+    }
+    const entries=Object.entries(value)
+    return entries.length>0 && entries.length<=MAX_VARIANT_OPTIONS && entries.every(([name,option])=>
+        name.trim().length>0 && name.length<=50 &&
+        typeof option==='string' && option.trim().length>0 && option.length<=100
+    )
+}
+
+const variantSkuRule=()=>body('sku')
+    .isString().withMessage('INVALID_SKU').bail()
+    .trim()
+    .matches(/^[A-Za-z0-9][A-Za-z0-9._-]*$/).withMessage('SKU_FORMAT').bail()
+    .isLength({max:64}).withMessage('SKU_TOO_LONG')
+
+const variantOptionsRule=()=>body('options')
+    .custom(isVariantOptions)
+    .withMessage(message('INVALID_VARIANT_OPTIONS',{max:MAX_VARIANT_OPTIONS}))
+
+// null quita el precio propio y la variante vuelve a usar el del producto
+const variantPriceRule=body('price').optional({values:'null'})
+    .isNumeric().withMessage('INVALID_VALUE')
+    .custom(value=>value>0).withMessage('INVALID_PRICE')
+    .custom(priceFitsCurrency)
+
+const variantAvailabilityRule=body('availability').optional()
+    .isBoolean({strict:true}).withMessage('INVALID_AVAILABILITY')
+
+export const createVariantRules=[
+    variantSkuRule(),
+    variantOptionsRule(),
+    variantPriceRule,
+    variantAvailabilityRule
+]
+
+export const patchVariantRules=[
+    variantSkuRule().optional(),
+    variantOptionsRule().optional(),
+    variantPriceRule,
+    variantAvailabilityRule
+]
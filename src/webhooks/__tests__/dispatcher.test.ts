@@ -0,0 +1,7 @@
+import { retryDelay } from '../dispatcher'
+
+describe('retryDelay',()=>{
+    it('should double the wait after every failed attempt',()=>{
+        expect([1,2,3,4].map(attempt=>retryDelay(attempt,1000))).toEqual([1000,2000,4000,8000])
+    })
+})
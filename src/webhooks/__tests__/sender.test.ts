@@ -0,0 +1,71 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { sendWebhook, signPayload } from '../sender'
+
+type Received={
+    headers:http.IncomingHttpHeaders
+    body:string
+}
+
+// Receptor local que responde con el estado indicado y guarda lo que recibe
+const startReceiver=(status=200,delay=0)=>new Promise<{url:string,received:Received[],close:()=>Promise<void>}>(resolve=>{
+    const received:Received[]=[]
+    const receiver=http.createServer((req,res)=>{
+        let body=''
+        req.on('data',chunk=>body+=chunk)
+        req.on('end',()=>{
+            received.push({headers:req.headers,body})
+            setTimeout(()=>res.writeHead(status).end(),delay)
+        })
+    })
+    receiver.listen(0,'127.0.0.1',()=>{
+        const{port}=receiver.address() as AddressInfo
+        resolve({
+            url:`http://127.0.0.1:${port}/hooks`,
+            received,
+            close:()=>new Promise(done=>{
+                receiver.closeAllConnections()
+                receiver.close(()=>done())
+            })
+        })
+    })
+})
+
+const payload={id:'evt-1',event:'product.updated',data:{id:1,name:'Mouse',price:50}}
+
+describe('sendWebhook',()=>{
+    it('should post the payload signed with the subscription secret',async()=>{
+        const receiver=await startReceiver()
+        const result=await sendWebhook({url:receiver.url,secret:'secreto',event:'product.updated',deliveryId:7,payload,timeoutMs:1000})
+        await receiver.close()
+        expect(result).toEqual({ok:true,status:200,error:null})
+        expect(receiver.received).toHaveLength(1)
+        const{headers,body}=receiver.received[0]
+        expect(JSON.parse(body)).toEqual(payload)
+        expect(headers['content-type']).toBe('application/json')
+        expect(headers['x-webhook-event']).toBe('product.updated')
+        expect(headers['x-webhook-delivery']).toBe('7')
+        const[,timestamp,signature]=(headers['x-webhook-signature'] as string).match(/^t=(\d+),v1=([a-f0-9]{64})$/)
+        expect(signature).toBe(signPayload('secreto',Number(timestamp),body))
+    })
+    it('should report the status of a failed delivery',async()=>{
+        const receiver=await startReceiver(503)
+        const result=await sendWebhook({url:receiver.url,secret:'secreto',event:'product.updated',deliveryId:7,payload,timeoutMs:1000})
+        await receiver.close()
+        expect(result).toEqual({ok:false,status:503,error:'El receptor respondio con el estado 503'})
+    })
+    it('should give up on receivers that take too long',async()=>{
+        const receiver=await startReceiver(200,500)
+        const result=await sendWebhook({url:receiver.url,secret:'secreto',event:'product.updated',deliveryId:7,payload,timeoutMs:50})
+        await receiver.close()
+        expect(result).toEqual({ok:false,status:null,error:'El receptor no respondio en 50 ms'})
+    })
+    it('should report receivers that are not reachable',async()=>{
+        const receiver=await startReceiver()
+        await receiver.close()
+        const result=await sendWebhook({url:receiver.url,secret:'secreto',event:'product.updated',deliveryId:7,payload,timeoutMs:1000})
+        expect(result.ok).toBe(false)
+        expect(result.status).toBeNull()
+        expect(result.error).toBeTruthy()
+    })
+})
@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto'
+import { Op, Transaction } from 'sequelize'
+import config from '../config/env'
+import WebhookDelivery from '../models/WebhookDelivery.model'
+import WebhookSubscription, { WebhookEvent } from '../models/WebhookSubscription.model'
+import logger from '../utils/logger'
+import { sendWebhook } from './sender'
+
+// Espera antes del reintento numero `attempt`: retryDelayMs, el doble, el cuadruple...
+export const retryDelay=(attempt:number,baseDelay=config.webhooks.retryDelayMs)=>baseDelay*2**(attempt-1)
+
+const scheduleDelivery=(id:number,delay=0)=>{
+    setTimeout(()=>{
+        attemptDelivery(id).catch(error=>{
+            logger.error({err:error,deliveryId:id},'Error al enviar el webhook')
+        })
+    },delay).unref()
+}
+
+// Registra una entrega por suscripcion dentro de la transaccion del cambio; se envian cuando se confirma
+export const publishEvent=async(event:WebhookEvent,data:unknown,transaction?:Transaction | null)=>{
+    const subscriptions = await WebhookSubscription.findAll({
+        where:{active:true,events:{[Op.contains]:[event]}},
+        transaction
+    })
+    if(subscriptions.length===0){
+        return
+    }
+    const payload={id:randomUUID(),event,createdAt:new Date().toISOString(),data}
+    const deliveries = await WebhookDelivery.bulkCreate(subscriptions.map(subscription=>({
+        subscriptionId:subscription.id,
+        event,
+        payload,
+        nextAttemptAt:new Date()
+    })),{transaction})
+    const send=()=>deliveries.forEach(delivery=>scheduleDelivery(delivery.id))
+    if(transaction){
+        transaction.afterCommit(send)
+        return
+    }
+    send()
+}
+
+export const attemptDelivery=async(id:number)=>{
+    const{timeoutMs,maxAttempts}=config.webhooks
+    // Reserva la entrega para que el worker y los reintentos no la envien dos veces
+    const [claimed] = await WebhookDelivery.update({nextAttemptAt:new Date(Date.now()+timeoutMs*2)},{
+        where:{id,status:'pending',nextAttemptAt:{[Op.lte]:new Date()}}
+    })
+    if(claimed===0){
+        return
+    }
+    const delivery = await WebhookDelivery.findByPk(id)
+    const subscription = await WebhookSubscription.scope('withSecret').findByPk(delivery.subscriptionId)
+    if(!subscription?.active){
+        await delivery.update({status:'failed',error:'La suscripcion esta desactivada',nextAttemptAt:null})
+        return
+    }
+    const result = await sendWebhook({
+        url:subscription.url,
+        secret:subscription.secret,
+        event:delivery.event,
+        deliveryId:delivery.id,
+        payload:delivery.payload,
+        timeoutMs
+    })
+    const attempts=delivery.attempts+1
+    if(result.ok){
+        await delivery.update({status:'succeeded',attempts,responseStatus:result.status,error:null,nextAttemptAt:null,deliveredAt:new Date()})
+        return
+    }
+    const exhausted=attempts>=maxAttempts
+    const delay=retryDelay(attempts)
+    await delivery.update({
+        status:exhausted ? 'failed' : 'pending',
+        attempts,
+        responseStatus:result.status,
+        error:result.error,
+        nextAttemptAt:exhausted ? null : new Date(Date.now()+delay)
+    })
+    if(!exhausted){
+        scheduleDelivery(id,delay)
+    }
+}
+
+// Vuelve a poner en cola una entrega que agoto sus intentos
+export const redeliver=async(delivery:WebhookDelivery)=>{
+    await delivery.update({status:'pending',attempts:0,nextAttemptAt:new Date()})
+    scheduleDelivery(delivery.id)
+}
+
+// Recoge las entregas pendientes que quedaron sin enviar, por ejemplo tras reiniciar el servidor
+export const startWebhookWorker=(interval=config.webhooks.pollIntervalMs)=>{
+    const timer=setInterval(async()=>{
+        try {
+            const due = await WebhookDelivery.findAll({
+                attributes:['id'],
+                where:{status:'pending',nextAttemptAt:{[Op.lte]:new Date()}},
+                order:[
+                    ['nextAttemptAt','ASC']
+                ],
+                limit:100
+            })
+            due.forEach(delivery=>scheduleDelivery(delivery.id))
+        } catch (error) {
+            logger.error({err:error},'Error al buscar webhooks pendientes')
+        }
+    },interval)
+    timer.unref()
+    return ()=>clearInterval(timer)
+}
@@ -0,0 +1,46 @@
+import { createHmac } from 'crypto'
+
+export type WebhookRequest={
+    url:string
+    secret:string
+    event:string
+    deliveryId:number
+    payload:unknown
+    timeoutMs:number
+}
+
+export type WebhookResult={
+    ok:boolean
+    status:number | null
+    error:string | null
+}
+
+// El receptor recalcula la firma con su secreto sobre "<timestamp>.<cuerpo>" para verificar el origen
+export const signPayload=(secret:string,timestamp:number,body:string)=>
+    createHmac('sha256',secret).update(`${timestamp}.${body}`).digest('hex')
+
+export const sendWebhook=async({url,secret,event,deliveryId,payload,timeoutMs}:WebhookRequest):Promise<WebhookResult>=>{
+    const body=JSON.stringify(payload)
+    const timestamp=Math.floor(Date.now()/1000)
+    try {
+        const response = await fetch(url,{
+            method:'POST',
+            headers:{
+                'Content-Type':'application/json',
+                'X-Webhook-Event':event,
+                'X-Webhook-Delivery':String(deliveryId),
+                'X-Webhook-Signature':`t=${timestamp},v1=${signPayload(secret,timestamp,body)}`
+            },
+            body,
+            redirect:'manual',
+            signal:AbortSignal.timeout(timeoutMs)
+        })
+        await response.body?.cancel()
+        return response.ok
+            ? {ok:true,status:response.status,error:null}
+            : {ok:false,status:response.status,error:`El receptor respondio con el estado ${response.status}`}
+    } catch (error) {
+        const message=error.name==='TimeoutError' ? `El receptor no respondio en ${timeoutMs} ms` : error.message
+        return {ok:false,status:null,error:message}
+    }
+}